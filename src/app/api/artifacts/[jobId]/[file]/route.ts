@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readArtifact, getArtifactContentType } from '@/lib/artifacts';
+
+// Download a file produced by a job: its LaTeX document, PDF, structured document or compilation log.
+// PDFs are shown in the browser with ?inline=true.
+export async function GET(request: NextRequest, { params }: { params: Promise<{ jobId: string; file: string }> }) {
+    const { jobId, file } = await params;
+    const content = await readArtifact(jobId, file);
+
+    if (!content) {
+        return NextResponse.json(
+            { error: 'Artifact not found' },
+            { status: 404 }
+        );
+    }
+
+    const disposition = request.nextUrl.searchParams.get('inline') === 'true' ? 'inline' : 'attachment';
+
+    return new NextResponse(new Uint8Array(content), {
+        headers: {
+            'Content-Type': getArtifactContentType(file),
+            'Content-Length': String(content.length),
+            'Content-Disposition': `${disposition}; filename*=UTF-8''${encodeURIComponent(file)}`,
+        },
+    });
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import logger from '@/utils/logger';
+import { clearResponseCache } from '@/lib/processing';
+
+// Clear the cached LLM responses of every job
+export async function DELETE() {
+    try {
+        await clearResponseCache();
+        return NextResponse.json({ cleared: true });
+    } catch (error) {
+        logger.error('Error clearing the response cache:', error);
+        return NextResponse.json(
+            { error: 'Failed to clear the response cache' },
+            { status: 500 }
+        );
+    }
+}
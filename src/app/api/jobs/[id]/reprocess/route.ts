@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createJob, enqueueJob, getJob, getJobDirectory, streamJobEvents } from '@/lib/jobs';
+import { loadProcessingInput, runProcessingJob, isCacheMode, PROCESSING_STAGES } from '@/lib/processing';
+import { llmProviderIds } from '@/lib/llm';
+
+// Process the transcription of a job again, as a new processing job, e.g. with another LLM provider.
+// The cache mode and the provider can be set with ?cache= and ?llm_provider=, and ?stream=true streams the progress.
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    const job = await getJob(id);
+
+    if (!job) {
+        return NextResponse.json(
+            { error: 'Job not found' },
+            { status: 404 }
+        );
+    }
+
+    const input = await loadProcessingInput(getJobDirectory(id));
+    if (!input) {
+        return NextResponse.json(
+            { error: 'Job has no transcription to process' },
+            { status: 409 }
+        );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const cacheMode = searchParams.get('cache') || 'use'; // Reuse cached LLM responses by default
+    const llmProvider = searchParams.get('llm_provider') || undefined; // LLM_PROVIDER if not provided
+
+    if (!isCacheMode(cacheMode)) {
+        return NextResponse.json(
+            { error: `Unknown cache mode: ${cacheMode}` },
+            { status: 400 }
+        );
+    }
+
+    if (llmProvider && !llmProviderIds.includes(llmProvider)) {
+        return NextResponse.json(
+            { error: `Unknown LLM provider "${llmProvider}". Available providers: ${llmProviderIds.join(', ')}.` },
+            { status: 400 }
+        );
+    }
+
+    const reprocessingJob = await createJob('processing', { sourceFilename: input.sourceFilename, language: input.language }, PROCESSING_STAGES);
+    const response = searchParams.get('stream') === 'true' ? streamJobEvents(reprocessingJob) : null;
+    enqueueJob(reprocessingJob, context => runProcessingJob({ ...input, cacheMode, llmProvider }, context));
+
+    return response ?? NextResponse.json(reprocessingJob, { status: 202 });
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJob, getJobDirectory, resumeJob, streamJobEvents } from '@/lib/jobs';
+import { loadProcessingInput, runProcessingJob } from '@/lib/processing';
+
+// Resume a failed or cancelled job from the first paragraph it didn't process.
+// With ?stream=true the job's progress is streamed, like when it was created.
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    const job = await getJob(id);
+
+    if (!job) {
+        return NextResponse.json(
+            { error: 'Job not found' },
+            { status: 404 }
+        );
+    }
+
+    if (job.status !== 'failed' && job.status !== 'cancelled') {
+        return NextResponse.json(
+            { error: `Job is ${job.status}, only failed or cancelled jobs can be resumed` },
+            { status: 409 }
+        );
+    }
+
+    // Pipeline jobs that stopped while transcribing have nothing to resume from
+    const input = await loadProcessingInput(getJobDirectory(id));
+    if (!input) {
+        return NextResponse.json(
+            { error: 'Job stopped before its transcription was saved, start it again instead' },
+            { status: 409 }
+        );
+    }
+
+    const wantsStream = request.nextUrl.searchParams.get('stream') === 'true';
+    const response = wantsStream ? streamJobEvents(job) : null;
+    resumeJob(job, context => runProcessingJob(input, context));
+
+    return response ?? NextResponse.json(job, { status: 202 });
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJob, cancelJob, isFinished } from '@/lib/jobs';
+
+// Get the status record of a job: its status, the progress of each stage and, once done, its result
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    const job = await getJob(id);
+
+    if (!job) {
+        return NextResponse.json(
+            { error: 'Job not found' },
+            { status: 404 }
+        );
+    }
+
+    return NextResponse.json(job);
+}
+
+// Cancel a queued or running job: stops the LLM requests and any running compilation
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    const job = await getJob(id);
+
+    if (!job) {
+        return NextResponse.json(
+            { error: 'Job not found' },
+            { status: 404 }
+        );
+    }
+
+    if (isFinished(job) || !cancelJob(id)) {
+        return NextResponse.json(
+            { error: `Job is already ${job.status}` },
+            { status: 409 }
+        );
+    }
+
+    return NextResponse.json(job);
+}
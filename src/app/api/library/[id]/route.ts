@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import logger from '@/utils/logger';
+import { deleteJob, getJob } from '@/lib/jobs';
+import { deleteArtifacts } from '@/lib/artifacts';
+
+// Delete a transcription or processed document from the library, along with every file of its job
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    const job = await getJob(id);
+
+    if (!job) {
+        return NextResponse.json(
+            { error: 'Job not found' },
+            { status: 404 }
+        );
+    }
+
+    try {
+        if (!await deleteJob(id)) {
+            return NextResponse.json(
+                { error: `Job is ${job.status}, cancel it before deleting it` },
+                { status: 409 }
+            );
+        }
+        await deleteArtifacts(id);
+    } catch (error) {
+        logger.error(`Error deleting job ${id}:`, error);
+        return NextResponse.json(
+            { error: 'Failed to delete the job' },
+            { status: 500 }
+        );
+    }
+
+    return NextResponse.json({ deleted: true });
+}
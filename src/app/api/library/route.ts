@@ -0,0 +1,7 @@
+import { NextResponse } from 'next/server';
+import { listJobs } from '@/lib/jobs';
+
+// List every transcription and processed document, the most recent first
+export async function GET() {
+    return NextResponse.json({ entries: await listJobs() });
+}
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server';
+import logger from '@/utils/logger';
+import { getTranscriptionProvider, transcribeLongAudio, TranscriptionConfigError } from '@/lib/transcription';
+import { runProcessingJob, isCacheMode, getTemplate, readDocumentMetadata } from '@/lib/processing';
+import { llmProviderIds } from '@/lib/llm';
+import { createJob, enqueueJob, streamJobEvents, JobRunner } from '@/lib/jobs';
+import { storeTranscription } from '@/lib/artifacts';
+import 'dotenv/config';
+
+// Share of the job's progress taken by each stage
+const PIPELINE_STAGES = {
+    transcription: 0.3,
+    processing: 0.65,
+    compilation: 0.05,
+};
+
+// Run the whole pipeline from audio to PDF: transcribe, then process the transcription,
+// streaming the progress of each stage. The transcription JSON is sent along as soon as it's ready.
+export async function POST(request: NextRequest) {
+    try {
+        // Get the form data from the request
+        const formData = await request.formData();
+        const audioFile = formData.get('audio') as File;
+        const languageCode = formData.get('language_code') as string || 'ita'; // Default to Italian if not provided
+        const providerId = formData.get('provider') as string | null;
+        const numSpeakersValue = formData.get('num_speakers') as string | null; // Auto-detect if not provided
+        const cacheMode = formData.get('cache') as string || 'use'; // Reuse cached LLM responses by default
+        const llmProvider = formData.get('llm_provider') as string || undefined; // LLM_PROVIDER if not provided
+        const template = formData.get('template') as string || undefined; // The default template if not provided
+        const metadata = readDocumentMetadata(formData); // Title, course, lecturer, lesson number and date
+
+        if (!audioFile) {
+            return NextResponse.json(
+                { error: 'No audio file provided' },
+                { status: 400 }
+            );
+        }
+
+        const numSpeakers = numSpeakersValue && numSpeakersValue !== 'auto' ? parseInt(numSpeakersValue, 10) : undefined;
+        if (numSpeakers !== undefined && (isNaN(numSpeakers) || numSpeakers < 1 || numSpeakers > 32)) {
+            return NextResponse.json(
+                { error: 'The number of speakers must be between 1 and 32' },
+                { status: 400 }
+            );
+        }
+
+        if (!isCacheMode(cacheMode)) {
+            return NextResponse.json(
+                { error: `Unknown cache mode: ${cacheMode}` },
+                { status: 400 }
+            );
+        }
+
+        if (llmProvider && !llmProviderIds.includes(llmProvider)) {
+            return NextResponse.json(
+                { error: `Unknown LLM provider "${llmProvider}". Available providers: ${llmProviderIds.join(', ')}.` },
+                { status: 400 }
+            );
+        }
+
+        if (template && !await getTemplate(template)) {
+            return NextResponse.json(
+                { error: `Unknown template: ${template}` },
+                { status: 400 }
+            );
+        }
+
+        // Pick the speech-to-text backend for this request
+        const provider = getTranscriptionProvider(providerId);
+
+        // Convert the file to a Blob
+        const bytes = await audioFile.arrayBuffer();
+        const audioBlob = new Blob([bytes], { type: audioFile.type });
+
+        const job = await createJob('pipeline', { sourceFilename: audioFile.name, language: languageCode }, PIPELINE_STAGES);
+
+        const runner: JobRunner = async context => {
+            const { setStageProgress, emit, signal } = context;
+            setStageProgress('transcription', 0);
+            const transcription = await transcribeLongAudio(
+                provider,
+                audioBlob,
+                audioFile.name,
+                { languageCode, numSpeakers, signal },
+                progress => setStageProgress('transcription', progress)
+            );
+
+            // Store the intermediate transcription and hand it to the client, so it can be kept or reprocessed later
+            const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+            const transcriptionFilename = `${audioFile.name.replace(/\.[^/.]+$/, '')}_transcription_${timestamp}.json`;
+            const transcriptionUrl = await storeTranscription(context, transcription, transcriptionFilename);
+            emit({ stage: 'transcription', transcriptionFilename, transcriptionUrl });
+
+            // From here on the job can be resumed without transcribing again
+            return runProcessingJob({
+                transcription,
+                sourceFilename: transcriptionFilename,
+                language: transcription.language_code || languageCode,
+                cacheMode,
+                llmProvider,
+                template,
+                metadata,
+            }, context);
+        };
+
+        // Stream the job's progress, then start it
+        const response = streamJobEvents(job);
+        enqueueJob(job, runner);
+
+        // Return the stream response
+        return response;
+    } catch (error) {
+        if (error instanceof TranscriptionConfigError) {
+            logger.error(`Transcription provider is not configured: ${error.message}`);
+            return NextResponse.json(
+                { error: error.message },
+                { status: 500 }
+            );
+        }
+
+        logger.error('Error starting pipeline:', error);
+        return NextResponse.json(
+            { error: 'Failed to start the pipeline' },
+            { status: 500 }
+        );
+    }
+}
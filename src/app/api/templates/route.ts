@@ -0,0 +1,11 @@
+import { NextResponse } from 'next/server';
+import { listTemplates, DEFAULT_TEMPLATE_ID } from '@/lib/processing';
+
+// List the document templates that can be picked, built-in and user-supplied
+export async function GET() {
+    const templates = await listTemplates();
+    return NextResponse.json({
+        defaultTemplate: DEFAULT_TEMPLATE_ID,
+        templates: templates.map(({ id, name }) => ({ id, name })),
+    });
+}
@@ -1,28 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { ElevenLabsClient } from 'elevenlabs';
+import { getTranscriptionProvider, transcribeLongAudio, TranscriptionConfigError } from '@/lib/transcription';
+import type { TranscriptionResult } from '@/lib/transcription/types';
+import { createJob, startJob, cancelJob, waitForJob, getJobDirectory, JobRunner } from '@/lib/jobs';
+import { storeTranscription } from '@/lib/artifacts';
+import { saveProcessingInput } from '@/lib/processing';
 import 'dotenv/config';
 
+// Transcribe an audio file as a job of its own, so that the transcription is kept in the library
+// and can be processed later. The client waits for the result, so the job isn't queued behind processing jobs,
+// and it's cancelled if the client goes away.
 export async function POST(request: NextRequest) {
   try {
-    // Get the API key from environment variables
-    const apiKey = process.env.ELEVENLABS_API_KEY;
-
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: 'API key not found. Please set ELEVENLABS_API_KEY in your .env file.' },
-        { status: 500 }
-      );
-    }
-
-    // Initialize the ElevenLabs client
-    const client = new ElevenLabsClient({
-      apiKey: apiKey,
-    });
-
     // Get the form data from the request
     const formData = await request.formData();
     const audioFile = formData.get('audio') as File;
     const languageCode = formData.get('language_code') as string || 'ita'; // Default to Italian if not provided
+    const providerId = formData.get('provider') as string | null;
+    const numSpeakersValue = formData.get('num_speakers') as string | null; // Auto-detect if not provided
 
     if (!audioFile) {
       return NextResponse.json(
@@ -31,27 +25,73 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const numSpeakers = numSpeakersValue && numSpeakersValue !== 'auto' ? parseInt(numSpeakersValue, 10) : undefined;
+    if (numSpeakers !== undefined && (isNaN(numSpeakers) || numSpeakers < 1 || numSpeakers > 32)) {
+      return NextResponse.json(
+        { error: 'The number of speakers must be between 1 and 32' },
+        { status: 400 }
+      );
+    }
+
+    // Pick the speech-to-text backend for this request
+    const provider = getTranscriptionProvider(providerId);
+
     // Convert the file to a Blob
     const bytes = await audioFile.arrayBuffer();
     const audioBlob = new Blob([bytes], { type: audioFile.type });
 
-    // Make the request to the 11Labs API using the client
-    const transcription = await client.speechToText.convert({
-      file: audioBlob,
-      model_id: "scribe_v1", // Model to use
-      tag_audio_events: true, // Tag audio events like laughter, applause, etc.
-      language_code: languageCode, // Language of the audio file from the request
-      diarize: true, // Whether to annotate who is speaking
-      num_speakers: 1,
-    });
+    const job = await createJob('transcription', { sourceFilename: audioFile.name, language: languageCode }, { transcription: 1 });
+    let transcription: TranscriptionResult | null = null;
+
+    const runner: JobRunner = async context => {
+      const { setStageProgress, signal } = context;
+
+      // Transcribe the audio with the selected provider, in chunks if it's too long for a single call
+      transcription = await transcribeLongAudio(
+        provider,
+        audioBlob,
+        audioFile.name,
+        { languageCode, numSpeakers, signal },
+        progress => setStageProgress('transcription', progress)
+      );
+
+      // Store it, along with what it takes to process it later from the library
+      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+      const transcriptionFilename = `${audioFile.name.replace(/\.[^/.]+$/, '')}_transcription_${timestamp}.json`;
+      await storeTranscription(context, transcription, transcriptionFilename);
+      await saveProcessingInput(getJobDirectory(context.job.id), {
+        transcription,
+        sourceFilename: transcriptionFilename,
+        language: transcription.language_code || languageCode,
+      });
+    };
+
+    startJob(job, runner);
+    request.signal.addEventListener('abort', () => cancelJob(job.id), { once: true });
+    const finishedJob = await waitForJob(job.id);
+
+    if (finishedJob.status !== 'done' || !transcription) {
+      return NextResponse.json(
+        { error: finishedJob.error || 'Failed to transcribe audio', jobId: job.id },
+        { status: 500 }
+      );
+    }
 
     // Return the transcription result
-    return NextResponse.json(transcription);
+    return NextResponse.json(transcription, { headers: { 'X-Job-Id': job.id } });
   } catch (error) {
+    if (error instanceof TranscriptionConfigError) {
+      console.error('Transcription provider is not configured:', error.message);
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      );
+    }
+
     console.error('Error in transcription API:', error);
     return NextResponse.json(
-      { error: 'Failed to transcribe audio. Please check your API key and try again.' },
+      { error: 'Failed to transcribe audio. Please check your provider configuration and try again.' },
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
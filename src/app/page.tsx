@@ -1,12 +1,16 @@
 import Image from "next/image";
+import Link from "next/link";
 import AudioTranscriber from "../components/AudioTranscriber";
 import TranscriptionProcessor from "../components/TranscriptionProcessor";
 
 export default function Home() {
   return (
     <div className="grid grid-rows-[auto_1fr_auto] items-center justify-items-center min-h-screen p-8 pb-20 gap-8 sm:p-30 font-[family-name:var(--font-geist-sans)] text-base md:text-md lg:text-lg">
-      <header className="w-full flex justify-center items-center py-4">
+      <header className="w-full flex flex-col justify-center items-center gap-2 py-4">
         <h1 className="text-4xl font-bold">ClearNotes</h1>
+        <Link href="/library" className="text-sm md:text-base underline underline-offset-4">
+          Library
+        </Link>
       </header>
 
       <main className="w-full max-w-8xl flex flex-col gap-8 items-center">
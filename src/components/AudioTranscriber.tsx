@@ -8,31 +8,38 @@ import { Card, CardContent, CardHeader, CardTitle, CardFooter } from '@/componen
 import { Progress } from '@/components/ui/progress';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Input } from '@/components/ui/input';
+import type { TranscriptionResult } from '@/lib/transcription/types';
+import { summarizeSpeakers, formatDuration } from '@/lib/transcription/summary';
+import { readEventStream } from '@/lib/sse';
+import type { JobStreamMessage } from '@/lib/jobs';
 
-interface TranscriptionResult {
-  language_code?: string;
-  language_probability?: number;
-  text: string;
-  words?: Array<{
-    text: string;
-    start?: number;
-    end?: number;
-    type?: 'word' | 'spacing' | 'audio_event';
-    speaker_id?: string;
-  }>;
-  audio_events?: Array<{
-    type: string;
-    start_time: number;
-    end_time: number;
-  }>;
-  speakers?: Array<{
-    name: string;
-    segments: Array<{
-      start_time: number;
-      end_time: number;
-      text: string;
-    }>;
-  }>;
+// Labels of the pipeline stages, as reported by /api/pipeline
+const STAGE_LABELS: Record<string, string> = {
+  transcription: 'Transcribing',
+  processing: 'Processing',
+  compilation: 'Compiling PDF',
+};
+
+// Messages of /api/pipeline, which also says where the transcription is stored once it's ready
+interface PipelineMessage extends JobStreamMessage {
+  transcriptionFilename?: string;
+  transcriptionUrl?: string;
+}
+
+// Download links for the files produced by the pipeline
+interface PipelineOutputs {
+  transcriptionUrl?: string;
+  transcriptionFilename?: string;
+  pdfUrl?: string;
+  pdfFilename?: string;
+  markdownUrl?: string;
+  markdownFilename?: string;
+  docxUrl?: string;
+  docxFilename?: string;
+  latexUrl?: string;
+  latexFilename?: string;
+  documentUrl?: string;
+  documentFilename?: string;
 }
 
 const AudioTranscriber = () => {
@@ -44,6 +51,11 @@ const AudioTranscriber = () => {
   const [isLongTranscription, setIsLongTranscription] = useState<boolean>(false);
   const [savedFileName, setSavedFileName] = useState<string | null>(null);
   const [languageCode, setLanguageCode] = useState<string>("ita"); // Default to Italian
+  const [provider, setProvider] = useState<string>("elevenlabs");
+  const [numSpeakers, setNumSpeakers] = useState<string>("auto");
+  const [runPipeline, setRunPipeline] = useState<boolean>(false);
+  const [stage, setStage] = useState<string | null>(null);
+  const [outputs, setOutputs] = useState<PipelineOutputs>({});
 
   const onDrop = useCallback((acceptedFiles: File[]) => {
     if (acceptedFiles.length > 0) {
@@ -61,20 +73,109 @@ const AudioTranscriber = () => {
     maxFiles: 1
   });
 
+  // Run the whole pipeline on the server, from audio to PDF, following the progress of each stage
+  const runFullPipeline = async () => {
+    if (!file) return;
+
+    try {
+      setIsTranscribing(true);
+      setProgress(0);
+      setStage(null);
+      setError(null);
+      setResult(null);
+
+      setOutputs({});
+
+      const formData = new FormData();
+      formData.append('audio', file);
+      formData.append('language_code', languageCode);
+      formData.append('provider', provider);
+      formData.append('num_speakers', numSpeakers);
+
+      const response = await fetch('/api/pipeline', {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || `Server responded with ${response.status}: ${response.statusText}`);
+      }
+
+      await readEventStream<PipelineMessage>(response, (data) => {
+        if (data.progress !== undefined) {
+          setProgress(data.progress);
+        }
+
+        if (data.stage) {
+          setStage(data.stage);
+        }
+
+        // The transcription is ready and stored on the server as an intermediate artifact,
+        // fetched from there rather than sent over the stream as it can be large
+        if (data.transcriptionUrl) {
+          fetch(data.transcriptionUrl)
+            .then(transcriptionResponse => transcriptionResponse.json())
+            .then(setResult)
+            .catch(error => console.error('Error loading the transcription:', error));
+          setOutputs(previous => ({
+            ...previous,
+            transcriptionUrl: data.transcriptionUrl,
+            transcriptionFilename: data.transcriptionFilename,
+          }));
+        }
+
+        if (data.complete) {
+          setOutputs(previous => ({
+            ...previous,
+            ...(data.pdfAvailable ? { pdfUrl: data.pdfUrl, pdfFilename: data.pdfFilename } : {}),
+            markdownUrl: data.markdownUrl,
+            markdownFilename: data.markdownFilename,
+            docxUrl: data.docxUrl,
+            docxFilename: data.docxFilename,
+            latexUrl: data.latexUrl,
+            latexFilename: data.latexFilename,
+            documentUrl: data.documentUrl,
+            documentFilename: data.documentFilename,
+          }));
+          setProgress(100);
+        }
+
+        if (data.error) {
+          setError(data.error);
+        }
+      });
+    } catch (err: unknown) {
+      console.error('Error running the pipeline:', err);
+      setError(err instanceof Error ? err.message : 'Failed to run the pipeline. Please try again.');
+    } finally {
+      setIsTranscribing(false);
+      setStage(null);
+    }
+  };
+
   const transcribeAudio = async () => {
     if (!file) return;
 
+    if (runPipeline) {
+      await runFullPipeline();
+      return;
+    }
+
     try {
       setIsTranscribing(true);
       setProgress(0);
       setError(null);
       setIsLongTranscription(false);
       setSavedFileName(null);
+      setResult(null);
 
       // Create a FormData object to send the file
       const formData = new FormData();
       formData.append('audio', file);
       formData.append('language_code', languageCode);
+      formData.append('provider', provider);
+      formData.append('num_speakers', numSpeakers);
 
       // Make the API request to our server-side API route
       const response = await axios.post(
@@ -136,6 +237,10 @@ const AudioTranscriber = () => {
     }
   };
 
+  // Per-speaker word count and talk time, to check that diarization worked
+  const speakerSummaries = result ? summarizeSpeakers(result) : [];
+  const totalTalkTime = speakerSummaries.reduce((sum, summary) => sum + summary.talkTime, 0);
+
   return (
     <Card className="w-full max-w-full mx-auto">
       <CardHeader className="pb-2">
@@ -183,20 +288,126 @@ const AudioTranscriber = () => {
           </p>
         </div>
 
+        <div className="space-y-2">
+          <label htmlFor="transcription-provider" className="text-sm font-medium">
+            Transcription Provider
+          </label>
+          <select
+            id="transcription-provider"
+            value={provider}
+            onChange={(e) => setProvider(e.target.value)}
+            className="border-input flex h-9 w-48 rounded-md border bg-transparent px-3 py-1 text-base shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] md:text-sm"
+          >
+            <option value="elevenlabs">ElevenLabs (cloud)</option>
+            <option value="whisper">Whisper (local)</option>
+            <option value="fixture">Fixture (offline test)</option>
+          </select>
+          <p className="text-sm text-muted-foreground">
+            Whisper runs on this server, so the audio never leaves the building
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <label htmlFor="num-speakers" className="text-sm font-medium">
+            Speakers
+          </label>
+          <select
+            id="num-speakers"
+            value={numSpeakers}
+            onChange={(e) => setNumSpeakers(e.target.value)}
+            className="border-input flex h-9 w-48 rounded-md border bg-transparent px-3 py-1 text-base shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] md:text-sm"
+          >
+            <option value="auto">Auto-detect</option>
+            {Array.from({ length: 10 }, (_, i) => i + 1).map((count) => (
+              <option key={count} value={String(count)}>
+                {count} {count === 1 ? 'speaker' : 'speakers'}
+              </option>
+            ))}
+          </select>
+          <p className="text-sm text-muted-foreground">
+            Set the count explicitly for seminars and interviews when auto-detection merges or splits voices
+          </p>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={runPipeline}
+            onChange={(e) => setRunPipeline(e.target.checked)}
+          />
+          Process into notes right away (audio to PDF in one step)
+        </label>
+
         {file && (
           <Button
             onClick={transcribeAudio}
             disabled={isTranscribing}
             className="w-full"
           >
-            {isTranscribing ? 'Transcribing...' : 'Transcribe audio'}
+            {isTranscribing
+              ? (runPipeline ? 'Running pipeline...' : 'Transcribing...')
+              : (runPipeline ? 'Transcribe and process' : 'Transcribe audio')}
           </Button>
         )}
 
         {isTranscribing && (
           <div className="space-y-1">
             <Progress value={progress} className="w-full h-2" />
-            <p className="text-sm text-left">{progress}% complete</p>
+            <p className="text-sm text-left">
+              {stage ? `${STAGE_LABELS[stage] || stage}: ` : ''}{progress}% complete
+            </p>
+          </div>
+        )}
+
+        {!isTranscribing && (outputs.pdfUrl || outputs.latexUrl || outputs.transcriptionUrl) && (
+          <div className="space-y-2">
+            {outputs.pdfUrl && (
+              <Button asChild className="w-full" variant="outline">
+                <a href={outputs.pdfUrl} download={outputs.pdfFilename || 'processed-transcription.pdf'}>
+                  Download PDF
+                </a>
+              </Button>
+            )}
+
+            {outputs.markdownUrl && (
+              <Button asChild className="w-full" variant="outline">
+                <a href={outputs.markdownUrl} download={outputs.markdownFilename || 'processed-transcription.md'}>
+                  Download Markdown
+                </a>
+              </Button>
+            )}
+
+            {outputs.docxUrl && (
+              <Button asChild className="w-full" variant="outline">
+                <a href={outputs.docxUrl} download={outputs.docxFilename || 'processed-transcription.docx'}>
+                  Download Word
+                </a>
+              </Button>
+            )}
+
+            {outputs.latexUrl && (
+              <Button asChild className="w-full" variant="outline">
+                <a href={outputs.latexUrl} download={outputs.latexFilename || 'processed-transcription.tex'}>
+                  Download LaTeX
+                </a>
+              </Button>
+            )}
+
+            {outputs.transcriptionUrl && (
+              <Button asChild className="w-full" variant="outline">
+                <a href={outputs.transcriptionUrl} download={outputs.transcriptionFilename || 'transcription.json'}>
+                  Download transcription JSON
+                </a>
+              </Button>
+            )}
+
+            {outputs.documentUrl && (
+              <Button asChild className="w-full" variant="outline">
+                <a href={outputs.documentUrl} download={outputs.documentFilename || 'processed-transcription.json'}>
+                  Download document JSON
+                </a>
+              </Button>
+            )}
           </div>
         )}
 
@@ -207,6 +418,34 @@ const AudioTranscriber = () => {
             </AlertDescription>
           </Alert>
         )}
+
+        {result && !isTranscribing && speakerSummaries.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Speakers</p>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground">
+                  <th className="font-normal">Speaker</th>
+                  <th className="font-normal text-right">Words</th>
+                  <th className="font-normal text-right">Talk time</th>
+                  <th className="font-normal text-right">Share</th>
+                </tr>
+              </thead>
+              <tbody>
+                {speakerSummaries.map((summary) => (
+                  <tr key={summary.speakerId}>
+                    <td>{summary.speakerId.replace('speaker_', 'Speaker ').replace('unknown_speaker', 'Unknown')}</td>
+                    <td className="text-right">{summary.wordCount}</td>
+                    <td className="text-right">{formatDuration(summary.talkTime)}</td>
+                    <td className="text-right">
+                      {totalTalkTime > 0 ? Math.round((summary.talkTime / totalTalkTime) * 100) : 0}%
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,218 @@
+"use client"
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { getLanguageDisplayName } from '@/lib/processing/languages';
+import { formatDuration } from '@/lib/transcription/summary';
+import type { JobRecord } from '@/lib/jobs';
+
+// How often the list is refreshed while some of its jobs are queued or running
+const REFRESH_INTERVAL_MS = 5000;
+
+const isActive = (entry: JobRecord) => entry.status === 'queued' || entry.status === 'running';
+
+// The files of an entry that can be downloaded, the main one first
+function getDownloads(entry: JobRecord): Array<{ label: string; url: string; filename: string }> {
+  const downloads = [];
+  const { result, transcription } = entry;
+
+  if (result?.pdfUrl && result.pdfFilename) {
+    downloads.push({ label: 'PDF', url: result.pdfUrl, filename: result.pdfFilename });
+  }
+  if (result?.markdownUrl && result.markdownFilename) {
+    downloads.push({ label: 'Markdown', url: result.markdownUrl, filename: result.markdownFilename });
+  }
+  if (result?.docxUrl && result.docxFilename) {
+    downloads.push({ label: 'Word', url: result.docxUrl, filename: result.docxFilename });
+  }
+  if (result?.latexUrl) {
+    downloads.push({ label: 'LaTeX', url: result.latexUrl, filename: result.latexFilename });
+  }
+  if (result?.documentUrl && result.documentFilename) {
+    downloads.push({ label: 'JSON', url: result.documentUrl, filename: result.documentFilename });
+  }
+  if (transcription) {
+    downloads.push({ label: 'Transcription', url: transcription.url, filename: transcription.filename });
+  }
+
+  return downloads;
+}
+
+const Library = () => {
+  const [entries, setEntries] = useState<JobRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEntries = useCallback(async () => {
+    try {
+      const response = await fetch('/api/library');
+      if (!response.ok) {
+        throw new Error(`Server responded with ${response.status}: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      setEntries(data.entries);
+    } catch (error) {
+      console.error('Error loading the library:', error);
+      setError(`Failed to load the library: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  // Keep following the jobs that aren't finished yet, e.g. the ones just reprocessed
+  const hasActiveEntries = entries.some(isActive);
+  useEffect(() => {
+    if (!hasActiveEntries) return;
+
+    const interval = setInterval(loadEntries, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasActiveEntries, loadEntries]);
+
+  // Process the transcription of an entry again, as a new entry
+  const reprocessEntry = async (entry: JobRecord) => {
+    try {
+      setError(null);
+      const response = await fetch(`/api/jobs/${entry.id}/reprocess`, { method: 'POST' });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `Server responded with ${response.status}: ${response.statusText}`);
+      }
+      await loadEntries();
+    } catch (error) {
+      console.error('Error reprocessing:', error);
+      setError(`Failed to reprocess ${entry.sourceFilename}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const deleteEntry = async (entry: JobRecord) => {
+    if (!window.confirm(`Delete ${entry.sourceFilename} and all its files?`)) return;
+
+    try {
+      setError(null);
+      const response = await fetch(`/api/library/${entry.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `Server responded with ${response.status}: ${response.statusText}`);
+      }
+      setEntries(previous => previous.filter(other => other.id !== entry.id));
+    } catch (error) {
+      console.error('Error deleting:', error);
+      setError(`Failed to delete ${entry.sourceFilename}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-full mx-auto">
+      <CardHeader className="pb-2 flex flex-row items-center justify-between">
+        <CardTitle className="text-xl">Library</CardTitle>
+        <Button onClick={loadEntries} variant="outline" size="sm">
+          Refresh
+        </Button>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription className="text-md">
+              {error}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Nothing here yet: transcriptions and processed documents show up once they are started.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left">
+                  <th className="py-2 pr-4 font-medium">File</th>
+                  <th className="py-2 pr-4 font-medium">Language</th>
+                  <th className="py-2 pr-4 font-medium">Duration</th>
+                  <th className="py-2 pr-4 font-medium">Speakers</th>
+                  <th className="py-2 pr-4 font-medium">Date</th>
+                  <th className="py-2 pr-4 font-medium">Status</th>
+                  <th className="py-2 font-medium">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((entry) => {
+                  const downloads = getDownloads(entry);
+                  const { transcription } = entry;
+
+                  return (
+                    <tr key={entry.id} className="border-b align-top">
+                      <td className="py-2 pr-4">
+                        <p className="break-all">{entry.sourceFilename}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {entry.kind === 'transcription' ? 'Transcription' : 'Document'}
+                        </p>
+                      </td>
+                      <td className="py-2 pr-4">{getLanguageDisplayName(transcription?.language || entry.language)}</td>
+                      <td className="py-2 pr-4">
+                        {transcription?.duration !== undefined ? formatDuration(transcription.duration) : '–'}
+                      </td>
+                      <td className="py-2 pr-4">{transcription?.speakerCount ?? '–'}</td>
+                      <td className="py-2 pr-4 whitespace-nowrap">{new Date(entry.createdAt).toLocaleString()}</td>
+                      <td className="py-2 pr-4">
+                        <p>{isActive(entry) ? `${entry.status} (${entry.progress}%)` : entry.status}</p>
+                        {entry.error && <p className="text-xs text-muted-foreground">{entry.error}</p>}
+                      </td>
+                      <td className="py-2">
+                        <div className="flex flex-wrap gap-2">
+                          {downloads.length > 0 && (
+                            <Button asChild size="sm">
+                              <a href={`${downloads[0].url}?inline=true`} target="_blank" rel="noopener noreferrer">
+                                Reopen
+                              </a>
+                            </Button>
+                          )}
+                          {downloads.map((download) => (
+                            <Button key={download.label} asChild size="sm" variant="outline">
+                              <a href={download.url} download={download.filename}>
+                                {download.label}
+                              </a>
+                            </Button>
+                          ))}
+                          <Button
+                            onClick={() => reprocessEntry(entry)}
+                            disabled={!transcription || isActive(entry)}
+                            size="sm"
+                            variant="outline"
+                          >
+                            Reprocess
+                          </Button>
+                          <Button
+                            onClick={() => deleteEntry(entry)}
+                            disabled={isActive(entry)}
+                            size="sm"
+                            variant="destructive"
+                          >
+                            Delete
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default Library;
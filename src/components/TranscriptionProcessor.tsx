@@ -7,6 +7,11 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Input } from '@/components/ui/input';
+import { readEventStream } from '@/lib/sse';
+import type { ParagraphFailure } from '@/lib/processing/paragraphs';
+import type { CompileError } from '@/lib/processing/compile';
+import type { JobResult, JobStreamMessage } from '@/lib/jobs';
 
 interface TranscriptionResult {
   language_code?: string;
@@ -43,18 +48,38 @@ const TranscriptionProcessor = () => {
   const [pdfFilename, setPdfFilename] = useState<string | null>(null);
   const [latexUrl, setLatexUrl] = useState<string | null>(null);
   const [latexFilename, setLatexFilename] = useState<string | null>(null);
+  const [documentUrl, setDocumentUrl] = useState<string | null>(null);
+  const [documentFilename, setDocumentFilename] = useState<string | null>(null);
+  const [markdownUrl, setMarkdownUrl] = useState<string | null>(null);
+  const [markdownFilename, setMarkdownFilename] = useState<string | null>(null);
+  const [docxUrl, setDocxUrl] = useState<string | null>(null);
+  const [docxFilename, setDocxFilename] = useState<string | null>(null);
+  const [logUrl, setLogUrl] = useState<string | null>(null);
+  const [logFilename, setLogFilename] = useState<string | null>(null);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [cacheMode, setCacheMode] = useState('use');
+  const [llmProvider, setLlmProvider] = useState('');
+  const [paragraphFailures, setParagraphFailures] = useState<ParagraphFailure[]>([]);
+  const [compileErrors, setCompileErrors] = useState<CompileError[]>([]);
+  const [templates, setTemplates] = useState<Array<{ id: string; name: string }>>([]);
+  const [template, setTemplate] = useState('');
+  const [metadata, setMetadata] = useState({ title: '', course: '', lecturer: '', lesson_number: '', date: '' });
 
-  // Cleanup effect to revoke object URLs when the component unmounts
+  // Get the document templates to pick from, built-in and user-supplied
   useEffect(() => {
-    return () => {
-      if (pdfUrl) {
-        URL.revokeObjectURL(pdfUrl);
-      }
-      if (latexUrl) {
-        URL.revokeObjectURL(latexUrl);
-      }
-    };
-  }, [pdfUrl, latexUrl]);
+    fetch('/api/templates')
+      .then(response => response.json())
+      .then(data => {
+        setTemplates(data.templates);
+        setTemplate(data.defaultTemplate);
+      })
+      .catch(error => console.error('Error loading the templates:', error));
+  }, []);
+
+  const updateMetadata = (field: keyof typeof metadata) => (event: React.ChangeEvent<HTMLInputElement>) => {
+    const value = event.target.value;
+    setMetadata(previous => ({ ...previous, [field]: value }));
+  };
 
   const onDrop = useCallback((acceptedFiles: File[]) => {
     if (acceptedFiles.length > 0) {
@@ -73,6 +98,73 @@ const TranscriptionProcessor = () => {
     maxFiles: 1
   });
 
+  // Offer the documents of a finished job for download, from the server's artifact store
+  const showResult = (result: JobResult) => {
+    setParagraphFailures(result.paragraphFailures || []);
+    setCompileErrors(result.compileErrors || []);
+
+    if (result.pdfAvailable && result.pdfUrl) {
+      setPdfUrl(result.pdfUrl);
+      setPdfFilename(result.pdfFilename || null);
+    }
+
+    if (result.latexUrl) {
+      setLatexUrl(result.latexUrl);
+      setLatexFilename(result.latexFilename);
+    } else {
+      setError('LaTeX document not provided. Please try again.');
+    }
+
+    if (result.documentUrl) {
+      setDocumentUrl(result.documentUrl);
+      setDocumentFilename(result.documentFilename || null);
+    }
+
+    if (result.markdownUrl) {
+      setMarkdownUrl(result.markdownUrl);
+      setMarkdownFilename(result.markdownFilename || null);
+    }
+
+    if (result.docxUrl) {
+      setDocxUrl(result.docxUrl);
+      setDocxFilename(result.docxFilename || null);
+    }
+
+    if (result.logUrl) {
+      setLogUrl(result.logUrl);
+      setLogFilename(result.logFilename || null);
+    }
+  };
+
+  // Handle the progress, completion and error messages of a job's stream
+  const handleStreamMessage = (data: JobStreamMessage) => {
+    console.log('Received SSE data:', data);
+
+    // Remember which job we're following
+    if (data.jobId) {
+      setJobId(data.jobId);
+    }
+
+    // Handle progress updates
+    if (data.progress !== undefined) {
+      setProgress(data.progress);
+    }
+
+    // Handle completion
+    if (data.complete) {
+      console.log('Processing complete');
+      showResult(data as JobResult);
+      setIsProcessing(false);
+      setProgress(100);
+    }
+
+    // Handle errors
+    if (data.error) {
+      setError(data.error);
+      setIsProcessing(false);
+    }
+  };
+
   const processTranscription = async () => {
     if (!file) return;
 
@@ -82,6 +174,13 @@ const TranscriptionProcessor = () => {
       setError(null);
       setPdfUrl(null);
       setLatexUrl(null);
+      setDocumentUrl(null);
+      setMarkdownUrl(null);
+      setDocxUrl(null);
+      setLogUrl(null);
+      setJobId(null);
+      setParagraphFailures([]);
+      setCompileErrors([]);
 
       // Create a FormData object to send the file
       const formData = new FormData();
@@ -92,6 +191,14 @@ const TranscriptionProcessor = () => {
       const data = JSON.parse(jsonData);
       const language = data.language_code;
       formData.append('language', language);
+      formData.append('cache', cacheMode);
+      if (llmProvider) {
+        formData.append('llm_provider', llmProvider);
+      }
+      if (template) {
+        formData.append('template', template);
+      }
+      Object.entries(metadata).forEach(([field, value]) => formData.append(field, value));
       
       // Check if the browser supports EventSource
       const supportsEventSource = 'EventSource' in window;
@@ -115,160 +222,34 @@ const TranscriptionProcessor = () => {
           if (response.headers.get('Content-Type')?.includes('text/event-stream')) {
             console.log('Got streaming response, setting up reader');
             
-            // Set up a reader for the response body
-            const reader = response.body?.getReader();
-            if (!reader) {
-              throw new Error('Failed to get reader from response');
-            }
-            
-            // Create a text decoder
-            const decoder = new TextDecoder();
-            let buffer = '';
-            
-            // Read the stream
-            while (true) {
-              const { done, value } = await reader.read();
-              if (done) {
-                console.log('Stream complete');
-                break;
-              }
-              
-              // Decode the chunk and add it to our buffer
-              buffer += decoder.decode(value, { stream: true });
-              
-              // Process any complete messages in the buffer
-              const messages = buffer.split('\n\n');
-              buffer = messages.pop() || ''; // Keep the last incomplete message in the buffer
-              
-              for (const message of messages) {
-                if (!message.trim()) continue;
-                
-                // Extract the data part
-                const dataMatch = message.match(/^data: (.+)$/m);
-                if (!dataMatch) continue;
-                
-                try {
-                  const data = JSON.parse(dataMatch[1]);
-                  console.log('Received SSE data:', data);
-                  
-                  // Handle progress updates
-                  if (data.progress !== undefined) {
-                    setProgress(data.progress);
-                  }
-                  
-                  // Handle completion
-                  if (data.complete) {
-                    console.log('Processing complete');
-                    
-                    // If PDF is available
-                    if (data.pdfAvailable && data.pdfFilename) {
-                      // Create a download link for the PDF from the base64 content
-                      if (data.pdfContent) {
-                        try {
-                          const pdfBlob = new Blob([Uint8Array.from(atob(data.pdfContent), c => c.charCodeAt(0))], { type: 'application/pdf' });
-                          const pdfUrl = URL.createObjectURL(pdfBlob);
-                          setPdfUrl(pdfUrl);
-                          setPdfFilename(data.pdfFilename);
-                          console.log('PDF blob created successfully');
-                        } catch (error) {
-                          console.error('Error creating PDF blob:', error);
-                          setError('Error creating PDF download. Please try again.');
-                        }
-                      } else {
-                        console.error('PDF content not provided in streaming response');
-                        setError('PDF content not provided. Please try again.');
-                      }
-                    }
-                    
-                    // Handle LaTeX content
-                    if (data.latexContent && data.latexFilename) {
-                      try {
-                        const latexBlob = new Blob([Uint8Array.from(atob(data.latexContent), c => c.charCodeAt(0))], { type: 'application/x-latex' });
-                        const latexUrl = URL.createObjectURL(latexBlob);
-                        setLatexUrl(latexUrl);
-                        setLatexFilename(data.latexFilename);
-                        console.log('LaTeX blob created successfully');
-                      } catch (error) {
-                        console.error('Error creating LaTeX blob:', error);
-                        setError('Error creating LaTeX download. Please try again.');
-                      }
-                    } else if (data.complete) {
-                      console.error('LaTeX content not provided in streaming response');
-                      setError('LaTeX content not provided. Please try again.');
-                    }
-                    
-                    setIsProcessing(false);
-                    setProgress(100);
-                  }
-                  
-                  // Handle errors
-                  if (data.error) {
-                    setError(data.error);
-                    setIsProcessing(false);
-                  }
-                } catch (error) {
-                  console.error('Error parsing SSE message:', error);
-                }
-              }
-            }
+            // Read the progress and completion messages of the stream
+            await readEventStream(response, handleStreamMessage);
+            console.log('Stream complete');
           } else {
             // Handle non-streaming response (fallback)
             console.log('Got non-streaming response');
             const contentType = response.headers.get('Content-Type');
             
             if (contentType?.includes('application/pdf')) {
-              // Handle PDF response
-              const pdfBlob = await response.blob();
-              const pdfUrl = URL.createObjectURL(pdfBlob);
-              setPdfUrl(pdfUrl);
-              
-              // Get the PDF filename from the response headers
-              const contentDisposition = response.headers.get('Content-Disposition');
-              let pdfFilename = 'processed-transcription.pdf';
-              if (contentDisposition) {
-                const filenameMatch = contentDisposition.match(/filename="(.+)"/);
-                if (filenameMatch && filenameMatch[1]) {
-                  pdfFilename = filenameMatch[1];
-                }
-              }
-              setPdfFilename(pdfFilename);
-              
-              // Get the LaTeX content and filename from the response
-              const latexContent = response.headers.get('X-LaTeX-Content');
-              const latexFilename = response.headers.get('X-LaTeX-Filename');
-              
-              if (latexContent && latexFilename) {
-                try {
-                  const latexBlob = new Blob([Uint8Array.from(atob(latexContent), c => c.charCodeAt(0))], { type: 'application/x-latex' });
-                  const latexUrl = URL.createObjectURL(latexBlob);
-                  setLatexUrl(latexUrl);
-                  setLatexFilename(latexFilename);
-                  console.log('LaTeX blob created successfully');
-                } catch (error) {
-                  console.error('Error creating LaTeX blob:', error);
-                  setError('Error creating LaTeX download. Please try again.');
-                }
+              // The PDF was sent directly: get the links to all the documents from the job
+              const finishedJobId = response.headers.get('X-Job-Id');
+              const jobResponse = await fetch(`/api/jobs/${finishedJobId}`);
+              if (!jobResponse.ok) {
+                throw new Error(`Server responded with ${jobResponse.status}: ${jobResponse.statusText}`);
               }
+              const job = await jobResponse.json();
+              setJobId(job.id);
+              showResult(job.result);
             } else if (contentType?.includes('application/json')) {
               // Handle JSON response (likely an error or LaTeX-only response)
               const responseData = await response.json();
-              
+
+              if (responseData.latexUrl) {
+                showResult(responseData);
+              }
               if (responseData.error) {
                 setError(responseData.error);
               }
-              
-              if (responseData.latexContent && responseData.latexFilename) {
-                try {
-                  const latexBlob = new Blob([Uint8Array.from(atob(responseData.latexContent), c => c.charCodeAt(0))], { type: 'application/x-latex' });
-                  const latexUrl = URL.createObjectURL(latexBlob);
-                  setLatexUrl(latexUrl);
-                  setLatexFilename(responseData.latexFilename);
-                  console.log('LaTeX blob created successfully');
-                } catch (error) {
-                  console.error('Error creating LaTeX blob:', error);
-                  setError('Error creating LaTeX download. Please try again.');
-                }
-              }
             } else {
               throw new Error(`Unexpected response content type: ${contentType}`);
             }
@@ -282,48 +263,17 @@ const TranscriptionProcessor = () => {
           setIsProcessing(false);
         }
       } else {
-        // Fallback to non-streaming approach
-        // Start a polling interval to check progress
-        const pollInterval = 2000; // 2 seconds
-        let pollTimer: NodeJS.Timeout | null = null;
-        
-        // Function to poll for progress
-        const pollProgress = async () => {
-          try {
-            const progressResponse = await fetch('/api/progress');
-            if (progressResponse.ok) {
-              const { progress, isProcessingActive } = await progressResponse.json();
-              if (progress !== undefined) {
-                // Scale progress to 10-90% range (upload is 0-10%, completion is 100%)
-                const scaledProgress = 10 + (progress * 0.8);
-                setProgress(Math.round(scaledProgress));
-              }
-              
-              // If processing is no longer active, stop polling
-              if (isProcessingActive === false) {
-                if (pollTimer) {
-                  clearInterval(pollTimer);
-                  pollTimer = null;
-                }
-              }
-            }
-          } catch (error) {
-            console.error('Error polling progress:', error);
-          }
-        };
-        
-        // Start polling
-        pollTimer = setInterval(pollProgress, pollInterval);
-        
+        // Fallback to non-streaming approach: start the job, then poll its status
+        formData.append('async', 'true');
+
         // Make the API request to our server-side API route
-        const response = await axios.post(
+        const startResponse = await axios.post(
           '/api/process-transcription',
           formData,
           {
             headers: {
               'Content-Type': 'multipart/form-data'
             },
-            responseType: 'blob', // Important for receiving the response as a blob
             onUploadProgress: (progressEvent) => {
               if (progressEvent.total) {
                 // This only tracks the upload progress, not the processing progress
@@ -333,74 +283,41 @@ const TranscriptionProcessor = () => {
             }
           }
         );
-        
-        // Stop polling once we get the response
-        if (pollTimer) {
-          clearInterval(pollTimer);
-        }
 
-        // Get the content type to determine if we received a PDF or JSON
-        const contentType = response.headers['content-type'];
-        
-        if (contentType === 'application/pdf') {
-          // We received a PDF - create a URL for the PDF blob
-          const pdfBlob = new Blob([response.data], { type: 'application/pdf' });
-          const pdfUrl = URL.createObjectURL(pdfBlob);
-          setPdfUrl(pdfUrl);
-          
-          // Get the PDF filename from the response headers
-          const contentDisposition = response.headers['content-disposition'];
-          let pdfFilename = 'processed-transcription.pdf';
-          if (contentDisposition) {
-            const filenameMatch = contentDisposition.match(/filename="(.+)"/);
-            if (filenameMatch && filenameMatch[1]) {
-              pdfFilename = filenameMatch[1];
-            }
+        const startedJobId: string = startResponse.data.jobId;
+        setJobId(startedJobId);
+
+        // Poll our own job until it's done or has failed
+        const pollInterval = 2000; // 2 seconds
+        while (true) {
+          await new Promise(resolve => setTimeout(resolve, pollInterval));
+
+          const jobResponse = await fetch(`/api/jobs/${startedJobId}`);
+          if (!jobResponse.ok) {
+            throw new Error(`Server responded with ${jobResponse.status}: ${jobResponse.statusText}`);
           }
-          setPdfFilename(pdfFilename);
-          
-          // Get the LaTeX content and filename from the response
-          const latexContent = response.headers['x-latex-content'];
-          const latexFilename = response.headers['x-latex-filename'];
-          
-          if (latexContent && latexFilename) {
-            // Create a URL for the LaTeX blob
-            try {
-              const latexBlob = new Blob([Uint8Array.from(atob(latexContent), c => c.charCodeAt(0))], { type: 'application/x-latex' });
-              const latexUrl = URL.createObjectURL(latexBlob);
-              setLatexUrl(latexUrl);
-              setLatexFilename(latexFilename);
-              console.log('LaTeX blob created successfully');
-            } catch (error) {
-              console.error('Error creating LaTeX blob:', error);
-              setError('Error creating LaTeX download. Please try again.');
-            }
+
+          const job = await jobResponse.json();
+
+          // Scale progress to 10-100% range (upload is 0-10%)
+          setProgress(Math.round(10 + job.progress * 0.9));
+
+          if (job.status === 'failed') {
+            throw new Error(job.error || 'Processing failed');
           }
-        } else {
-          // We received JSON with error or LaTeX only
-          try {
-            const responseData = JSON.parse(new TextDecoder().decode(response.data));
-            
-            if (responseData.error) {
-              setError(responseData.error);
-            }
-            
-            if (responseData.latexContent && responseData.latexFilename) {
-              // Create a URL for the LaTeX blob
-              try {
-                const latexBlob = new Blob([Uint8Array.from(atob(responseData.latexContent), c => c.charCodeAt(0))], { type: 'application/x-latex' });
-                const latexUrl = URL.createObjectURL(latexBlob);
-                setLatexUrl(latexUrl);
-                setLatexFilename(responseData.latexFilename);
-                console.log('LaTeX blob created successfully');
-              } catch (error) {
-                console.error('Error creating LaTeX blob:', error);
-                setError('Error creating LaTeX download. Please try again.');
-              }
+
+          if (job.status === 'cancelled') {
+            setError('Processing was cancelled');
+            setIsProcessing(false);
+            return;
+          }
+
+          if (job.status === 'done') {
+            showResult(job.result);
+            if (!job.result.pdfAvailable) {
+              setError('PDF compilation failed, but LaTeX is available for download');
             }
-          } catch (error) {
-            console.error('Error parsing response:', error);
-            setError('Failed to process transcription. Please try again.');
+            break;
           }
         }
         
@@ -414,20 +331,60 @@ const TranscriptionProcessor = () => {
     }
   };
 
-  const resetForm = () => {
-    // Clean up any created object URLs
-    if (pdfUrl) {
-      URL.revokeObjectURL(pdfUrl);
+  // Ask the server to stop the running job; the stream or the polling loop then reports the cancellation
+  const cancelProcessing = async () => {
+    if (!jobId) return;
+
+    try {
+      const response = await fetch(`/api/jobs/${jobId}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setError(data.error || `Failed to cancel processing: ${response.statusText}`);
+      }
+    } catch (error) {
+      console.error('Error cancelling processing:', error);
+      setError(`Failed to cancel processing: ${error instanceof Error ? error.message : String(error)}`);
     }
-    if (latexUrl) {
-      URL.revokeObjectURL(latexUrl);
+  };
+
+  // Run a failed or cancelled job again, from the first paragraph it didn't process
+  const resumeProcessing = async () => {
+    if (!jobId) return;
+
+    try {
+      setIsProcessing(true);
+      setError(null);
+
+      const response = await fetch(`/api/jobs/${jobId}/resume?stream=true`, { method: 'POST' });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `Server responded with ${response.status}: ${response.statusText}`);
+      }
+
+      await readEventStream(response, handleStreamMessage);
+    } catch (error) {
+      console.error('Error resuming processing:', error);
+      setError(`Failed to resume processing: ${error instanceof Error ? error.message : String(error)}`);
+      setIsProcessing(false);
     }
-    
+  };
+
+  const resetForm = () => {
     setFile(null);
     setPdfUrl(null);
     setLatexUrl(null);
+    setDocumentUrl(null);
     setLatexFilename(null);
     setPdfFilename(null);
+    setDocumentFilename(null);
+    setMarkdownUrl(null);
+    setMarkdownFilename(null);
+    setDocxUrl(null);
+    setDocxFilename(null);
+    setLogUrl(null);
+    setLogFilename(null);
+    setParagraphFailures([]);
+    setCompileErrors([]);
     setError(null);
   };
 
@@ -461,6 +418,75 @@ const TranscriptionProcessor = () => {
           )}
         </div>
 
+        {file && (
+          <div className="space-y-2">
+            <label htmlFor="template" className="text-sm font-medium">
+              Document Template
+            </label>
+            <select
+              id="template"
+              value={template}
+              onChange={(e) => setTemplate(e.target.value)}
+              disabled={isProcessing}
+              className="border-input flex h-9 w-full rounded-md border bg-transparent px-3 py-1 text-base shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] md:text-sm"
+            >
+              {templates.map((option) => (
+                <option key={option.id} value={option.id}>{option.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {file && (
+          <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+            <Input placeholder="Title" value={metadata.title} onChange={updateMetadata('title')} disabled={isProcessing} />
+            <Input placeholder="Course" value={metadata.course} onChange={updateMetadata('course')} disabled={isProcessing} />
+            <Input placeholder="Lecturer" value={metadata.lecturer} onChange={updateMetadata('lecturer')} disabled={isProcessing} />
+            <Input placeholder="Lesson number" value={metadata.lesson_number} onChange={updateMetadata('lesson_number')} disabled={isProcessing} />
+            <Input type="date" aria-label="Date" value={metadata.date} onChange={updateMetadata('date')} disabled={isProcessing} />
+          </div>
+        )}
+
+        {file && (
+          <div className="space-y-2">
+            <label htmlFor="llm-provider" className="text-sm font-medium">
+              Language Model
+            </label>
+            <select
+              id="llm-provider"
+              value={llmProvider}
+              onChange={(e) => setLlmProvider(e.target.value)}
+              disabled={isProcessing}
+              className="border-input flex h-9 w-full rounded-md border bg-transparent px-3 py-1 text-base shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] md:text-sm"
+            >
+              <option value="">Server default</option>
+              <option value="gemini">Gemini</option>
+              <option value="openai">OpenAI-compatible</option>
+              <option value="ollama">Ollama (local)</option>
+              <option value="mock">Mock (offline test)</option>
+            </select>
+          </div>
+        )}
+
+        {file && (
+          <div className="space-y-2">
+            <label htmlFor="cache-mode" className="text-sm font-medium">
+              Cached Responses
+            </label>
+            <select
+              id="cache-mode"
+              value={cacheMode}
+              onChange={(e) => setCacheMode(e.target.value)}
+              disabled={isProcessing}
+              className="border-input flex h-9 w-full rounded-md border bg-transparent px-3 py-1 text-base shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] md:text-sm"
+            >
+              <option value="use">Reuse cached responses</option>
+              <option value="bypass">Ignore the cache</option>
+              <option value="clear">Replace the cached responses</option>
+            </select>
+          </div>
+        )}
+
         {file && (
           <Button
             onClick={processTranscription}
@@ -475,6 +501,18 @@ const TranscriptionProcessor = () => {
           <div className="space-y-1">
             <Progress value={progress} className="w-full h-2" />
             <p className="text-sm text-left">{progress}% complete</p>
+            {jobId && (
+              <>
+                <p className="text-xs text-muted-foreground">Job {jobId}</p>
+                <Button
+                  onClick={cancelProcessing}
+                  variant="outline"
+                  className="w-full"
+                >
+                  Cancel
+                </Button>
+              </>
+            )}
           </div>
         )}
 
@@ -486,6 +524,55 @@ const TranscriptionProcessor = () => {
           </Alert>
         )}
 
+        {error && jobId && !isProcessing && !pdfUrl && !latexUrl && (
+          <Button
+            onClick={resumeProcessing}
+            variant="outline"
+            className="w-full"
+          >
+            Resume Processing
+          </Button>
+        )}
+
+        {paragraphFailures.length > 0 && !isProcessing && (
+          <Alert>
+            <AlertDescription className="text-sm">
+              <p>
+                {paragraphFailures.length} {paragraphFailures.length === 1 ? 'paragraph was' : 'paragraphs were'} left as transcribed:
+              </p>
+              <ul className="list-disc pl-4">
+                {paragraphFailures.map((failure) => (
+                  <li key={failure.paragraph}>
+                    Paragraph {failure.paragraph + 1} ({failure.kind.replace('_', ' ')}): {failure.reason}
+                  </li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {compileErrors.length > 0 && !isProcessing && (
+          <Alert variant={pdfUrl ? 'default' : 'destructive'}>
+            <AlertDescription className="text-sm">
+              <p>
+                {pdfUrl
+                  ? 'LaTeX errors were fixed by showing the affected paragraphs as plain text:'
+                  : 'The PDF could not be compiled:'}
+              </p>
+              <ul className="list-disc pl-4">
+                {compileErrors.map((compileError, index) => (
+                  <li key={index}>
+                    {compileError.line !== undefined && `Line ${compileError.line}`}
+                    {compileError.paragraph !== undefined && ` (paragraph ${compileError.paragraph + 1})`}
+                    {compileError.line !== undefined && ': '}
+                    {compileError.message}
+                  </li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
         {(pdfUrl || latexUrl) && !isProcessing && (
           <div className="space-y-2">
             {pdfUrl && (
@@ -502,6 +589,36 @@ const TranscriptionProcessor = () => {
                 </a>
               </Button>
             )}
+
+            {markdownUrl && (
+              <Button
+                asChild
+                className="w-full"
+                variant="outline"
+              >
+                <a
+                  href={markdownUrl}
+                  download={markdownFilename || 'processed-transcription.md'}
+                >
+                  Download Markdown
+                </a>
+              </Button>
+            )}
+
+            {docxUrl && (
+              <Button
+                asChild
+                className="w-full"
+                variant="outline"
+              >
+                <a
+                  href={docxUrl}
+                  download={docxFilename || 'processed-transcription.docx'}
+                >
+                  Download Word
+                </a>
+              </Button>
+            )}
             
             {latexUrl && (
               <Button
@@ -517,6 +634,36 @@ const TranscriptionProcessor = () => {
                 </a>
               </Button>
             )}
+
+            {documentUrl && (
+              <Button
+                asChild
+                className="w-full"
+                variant="outline"
+              >
+                <a
+                  href={documentUrl}
+                  download={documentFilename || 'processed-transcription.json'}
+                >
+                  Download JSON
+                </a>
+              </Button>
+            )}
+
+            {logUrl && compileErrors.length > 0 && (
+              <Button
+                asChild
+                className="w-full"
+                variant="outline"
+              >
+                <a
+                  href={logUrl}
+                  download={logFilename || 'processed-transcription.log'}
+                >
+                  Download Compilation Log
+                </a>
+              </Button>
+            )}
           </div>
         )}
       </CardContent>
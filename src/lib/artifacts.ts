@@ -0,0 +1,93 @@
+import path from 'path';
+import { promises as fsPromises } from 'fs';
+import { writeFileAtomically } from '@/lib/server-utils';
+import { isValidJobId, JobContext } from '@/lib/jobs';
+import { getTranscriptionDuration, summarizeSpeakers } from '@/lib/transcription/summary';
+import type { TranscriptionResult } from '@/lib/transcription/types';
+
+// Content type of each kind of artifact, by extension
+const ARTIFACT_CONTENT_TYPES: Record<string, string> = {
+    '.json': 'application/json',
+    '.tex': 'application/x-latex',
+    '.pdf': 'application/pdf',
+    '.log': 'text/plain; charset=utf-8',
+    '.md': 'text/markdown; charset=utf-8',
+    '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+};
+
+// Directory holding one subdirectory per job, with the files the job produced
+export function getArtifactsDirectory(): string {
+    return process.env.ARTIFACTS_DIR || path.join(process.cwd(), 'artifacts');
+}
+
+export function getArtifactDirectory(jobId: string): string {
+    return path.join(getArtifactsDirectory(), jobId);
+}
+
+// Artifact names end up in paths, so only accept plain file names of a known kind
+export function isValidArtifactName(filename: string): boolean {
+    return filename === path.basename(filename)
+        && !filename.startsWith('.')
+        && !filename.includes('\\')
+        && path.extname(filename) in ARTIFACT_CONTENT_TYPES;
+}
+
+export function getArtifactContentType(filename: string): string {
+    return ARTIFACT_CONTENT_TYPES[path.extname(filename)] ?? 'application/octet-stream';
+}
+
+// Where an artifact can be downloaded from
+export function getArtifactUrl(jobId: string, filename: string): string {
+    return `/api/artifacts/${jobId}/${encodeURIComponent(filename)}`;
+}
+
+// Store a file produced by a job, and return the URL to download it
+export async function saveArtifact(jobId: string, filename: string, content: string | Buffer): Promise<string> {
+    if (!isValidJobId(jobId) || !isValidArtifactName(filename)) {
+        throw new Error(`Invalid artifact ${jobId}/${filename}`);
+    }
+
+    const directory = getArtifactDirectory(jobId);
+    await fsPromises.mkdir(directory, { recursive: true });
+    await writeFileAtomically(path.join(directory, filename), content);
+    return getArtifactUrl(jobId, filename);
+}
+
+// Read a file produced by a job, or null if there's no such file
+export async function readArtifact(jobId: string, filename: string): Promise<Buffer | null> {
+    if (!isValidJobId(jobId) || !isValidArtifactName(filename)) {
+        return null;
+    }
+
+    try {
+        return await fsPromises.readFile(path.join(getArtifactDirectory(jobId), filename));
+    } catch {
+        return null;
+    }
+}
+
+// Delete every file produced by a job
+export async function deleteArtifacts(jobId: string) {
+    if (isValidJobId(jobId)) {
+        await fsPromises.rm(getArtifactDirectory(jobId), { recursive: true, force: true });
+    }
+}
+
+// Store the transcription a job made or processed, and record it in the job for the library
+export async function storeTranscription(
+    { job, setTranscription }: JobContext,
+    transcription: TranscriptionResult,
+    filename: string
+): Promise<string> {
+    const url = await saveArtifact(job.id, filename, JSON.stringify(transcription, null, 2));
+
+    setTranscription({
+        filename,
+        url,
+        language: transcription.language_code,
+        duration: getTranscriptionDuration(transcription),
+        speakerCount: summarizeSpeakers(transcription).length,
+    });
+
+    return url;
+}
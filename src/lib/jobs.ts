@@ -0,0 +1,472 @@
+import path from 'path';
+import { promises as fsPromises } from 'fs';
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import logger from '@/utils/logger';
+import { createEventStream } from '@/lib/sse';
+import { writeFileAtomically } from '@/lib/server-utils';
+import type { ParagraphFailure } from '@/lib/processing/paragraphs';
+import type { CompileError } from '@/lib/processing/compile';
+
+export type JobStatus = 'queued' | 'running' | 'failed' | 'done' | 'cancelled';
+
+export type JobKind = 'transcription' | 'processing' | 'pipeline';
+
+export interface JobStage {
+    weight: number; // Share of the job's overall progress taken by this stage
+    status: 'pending' | 'running' | 'done' | 'failed';
+    progress: number;
+}
+
+// Files produced by a job, stored in its artifact directory, with the URLs to download them
+export interface JobResult {
+    latexFilename: string;
+    latexUrl: string;
+    pdfFilename?: string;
+    pdfUrl?: string;
+    pdfAvailable: boolean;
+    documentFilename?: string; // The structured document, as JSON
+    documentUrl?: string;
+    markdownFilename?: string;
+    markdownUrl?: string;
+    docxFilename?: string; // The Word export
+    docxUrl?: string;
+    logFilename?: string; // Output of the TeX engine, for every compilation attempt
+    logUrl?: string;
+    paragraphFailures?: ParagraphFailure[]; // Paragraphs left as transcribed, and why
+    compileErrors?: CompileError[]; // Errors of the LaTeX compilation, fixed or not
+}
+
+// The transcription a job made or processed, as listed in the library
+export interface TranscriptionInfo {
+    filename: string;
+    url: string; // Where to download it from the artifact store
+    language?: string; // Detected by the transcription provider
+    duration?: number; // Seconds, up to the end of the last word
+    speakerCount: number;
+}
+
+export interface JobRecord {
+    id: string;
+    kind: JobKind;
+    status: JobStatus;
+    progress: number; // Overall progress, from the progress of each stage
+    stages: Record<string, JobStage>;
+    sourceFilename: string;
+    language: string;
+    error?: string;
+    transcription?: TranscriptionInfo;
+    result?: JobResult;
+    createdAt: string;
+    updatedAt: string;
+}
+
+// What a job's runner can do while it runs
+export interface JobContext {
+    job: JobRecord;
+    setStageProgress: (stage: string, progress: number) => void;
+    emit: (data: object) => void; // Send an intermediate message to whoever follows the job
+    setTranscription: (transcription: TranscriptionInfo) => void;
+    signal: AbortSignal; // Aborted when the job is cancelled
+}
+
+// Transcription jobs have no result other than their transcription
+export type JobRunner = (context: JobContext) => Promise<JobResult | void>;
+
+export type JobEvent =
+    | { type: 'update'; job: JobRecord }
+    | { type: 'message'; data: object };
+
+// A message of a job's event stream: its progress, a message of its runner, or how it ended
+export interface JobStreamMessage extends Partial<JobResult> {
+    jobId: string;
+    status?: JobStatus;
+    progress?: number;
+    stage?: string;
+    stageProgress?: number;
+    complete?: boolean;
+    cancelled?: boolean;
+    error?: string;
+}
+
+interface JobQueueState {
+    jobs: Map<string, JobRecord>;
+    events: EventEmitter;
+    pending: Array<{ id: string; runner: JobRunner }>;
+    running: number;
+    writes: Map<string, Promise<void>>;
+    controllers: Map<string, AbortController>;
+}
+
+// Keep the queue on globalThis, so that every route shares it even when Next.js bundles them separately
+const globalForJobs = globalThis as unknown as { jobQueue?: JobQueueState };
+const queue: JobQueueState = globalForJobs.jobQueue ?? {
+    jobs: new Map(),
+    events: new EventEmitter(),
+    pending: [],
+    running: 0,
+    writes: new Map(),
+    controllers: new Map(),
+};
+globalForJobs.jobQueue = queue;
+queue.events.setMaxListeners(0);
+
+const maxConcurrentJobs = () => Number(process.env.MAX_CONCURRENT_JOBS) || 2;
+
+// How long finished jobs stay in memory; after that they're read back from disk
+const FINISHED_JOB_MEMORY_MS = 10 * 60 * 1000;
+
+// Directory holding one subdirectory per job, with its status record
+export function getJobsDirectory(): string {
+    return process.env.JOBS_DIR || path.join(process.cwd(), 'jobs');
+}
+
+export function getJobDirectory(id: string): string {
+    return path.join(getJobsDirectory(), id);
+}
+
+// Job IDs end up in paths, so only accept what uuidv4 produces
+export function isValidJobId(id: string): boolean {
+    return /^[0-9a-f-]{36}$/.test(id);
+}
+
+// Write the status record to disk, one write at a time per job
+function persistJob(job: JobRecord): Promise<void> {
+    const snapshot = JSON.stringify(job, null, 2);
+    const previous = queue.writes.get(job.id) || Promise.resolve();
+
+    const write = previous.then(async () => {
+        const directory = getJobDirectory(job.id);
+        await fsPromises.mkdir(directory, { recursive: true });
+        await writeFileAtomically(path.join(directory, 'job.json'), snapshot);
+    }).catch(error => {
+        logger.error(`Error saving job ${job.id}:`, error);
+    });
+
+    queue.writes.set(job.id, write);
+    return write;
+}
+
+// Save the job and tell whoever follows it
+function updateJob(job: JobRecord, changes: Partial<JobRecord>) {
+    Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+    persistJob(job);
+    queue.events.emit(job.id, { type: 'update', job } satisfies JobEvent);
+}
+
+// Create a queued job, with the weight of each of its stages
+export async function createJob(
+    kind: JobKind,
+    details: { sourceFilename: string; language: string },
+    stageWeights: Record<string, number>
+): Promise<JobRecord> {
+    const now = new Date().toISOString();
+    const stages: Record<string, JobStage> = {};
+    for (const [stage, weight] of Object.entries(stageWeights)) {
+        stages[stage] = { weight, status: 'pending', progress: 0 };
+    }
+
+    const job: JobRecord = {
+        id: uuidv4(),
+        kind,
+        status: 'queued',
+        progress: 0,
+        stages,
+        sourceFilename: details.sourceFilename,
+        language: details.language,
+        createdAt: now,
+        updatedAt: now,
+    };
+
+    queue.jobs.set(job.id, job);
+    await persistJob(job);
+    return job;
+}
+
+// Get a job from memory, or from disk if it was created by a previous server process
+export async function getJob(id: string): Promise<JobRecord | null> {
+    if (!isValidJobId(id)) {
+        return null;
+    }
+
+    const inMemory = queue.jobs.get(id);
+    if (inMemory) {
+        return inMemory;
+    }
+
+    try {
+        const job: JobRecord = JSON.parse(await fsPromises.readFile(path.join(getJobDirectory(id), 'job.json'), 'utf-8'));
+
+        // Nothing is running this job anymore: the server stopped while it was queued or running
+        if (job.status === 'queued' || job.status === 'running') {
+            job.status = 'failed';
+            job.error = 'Interrupted by a server restart';
+        }
+
+        return job;
+    } catch {
+        return null;
+    }
+}
+
+// Get every job saved on disk, the most recent first
+export async function listJobs(): Promise<JobRecord[]> {
+    let ids: string[];
+    try {
+        ids = await fsPromises.readdir(getJobsDirectory());
+    } catch {
+        return [];
+    }
+
+    const jobs = await Promise.all(ids.filter(isValidJobId).map(getJob));
+    return jobs
+        .filter((job): job is JobRecord => job !== null)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Delete a finished job along with its directory. Returns false if the job is still queued or running.
+export async function deleteJob(id: string): Promise<boolean> {
+    const job = await getJob(id);
+    if (!job || (queue.jobs.has(id) && !isFinished(job))) {
+        return false;
+    }
+
+    // Let the last write of the status record finish, so that it doesn't bring the directory back
+    await queue.writes.get(id);
+    queue.writes.delete(id);
+    queue.jobs.delete(id);
+
+    await fsPromises.rm(getJobDirectory(id), { recursive: true, force: true });
+    logger.info(`Deleted job ${id}`);
+    return true;
+}
+
+// Start queued jobs while there are free slots
+function runNextJobs() {
+    while (queue.running < maxConcurrentJobs() && queue.pending.length > 0) {
+        const { id, runner } = queue.pending.shift()!;
+        const job = queue.jobs.get(id);
+        if (!job) continue;
+
+        queue.running++;
+        runJob(job, runner).finally(() => {
+            queue.running--;
+            runNextJobs();
+            evictWhenIdle(id);
+        });
+    }
+}
+
+// Drop a finished job from memory after a while, unless it was resumed in the meantime
+function evictWhenIdle(id: string) {
+    setTimeout(() => {
+        const job = queue.jobs.get(id);
+        if (job && isFinished(job)) {
+            queue.jobs.delete(id);
+        }
+    }, FINISHED_JOB_MEMORY_MS).unref?.();
+}
+
+// Overall progress is the weighted sum of the progress of each stage
+function overallProgress(stages: Record<string, JobStage>): number {
+    return Math.round(Object.values(stages).reduce((sum, { weight, progress }) => sum + weight * progress, 0));
+}
+
+// Whether a job won't change anymore
+export function isFinished(job: JobRecord): boolean {
+    return job.status === 'done' || job.status === 'failed' || job.status === 'cancelled';
+}
+
+async function runJob(job: JobRecord, runner: JobRunner) {
+    const controller = new AbortController();
+    queue.controllers.set(job.id, controller);
+
+    const context: JobContext = {
+        job,
+        setStageProgress: (stage, progress) => {
+            const stages = { ...job.stages };
+            stages[stage] = { ...stages[stage], progress, status: progress >= 100 ? 'done' : 'running' };
+            updateJob(job, { stages, progress: overallProgress(stages) });
+        },
+        emit: (data) => {
+            queue.events.emit(job.id, { type: 'message', data } satisfies JobEvent);
+        },
+        setTranscription: (transcription) => {
+            updateJob(job, { transcription });
+        },
+        signal: controller.signal,
+    };
+
+    updateJob(job, { status: 'running' });
+    logger.info(`Started job ${job.id} (${job.kind}) for ${job.sourceFilename}`);
+
+    try {
+        const result = await runner(context);
+
+        const stages = { ...job.stages };
+        for (const stage of Object.keys(stages)) {
+            stages[stage] = { ...stages[stage], status: 'done', progress: 100 };
+        }
+        updateJob(job, { status: 'done', progress: 100, stages, result: result || undefined });
+        logger.info(`Finished job ${job.id}`);
+    } catch (error) {
+        const cancelled = controller.signal.aborted;
+        if (cancelled) {
+            logger.warn(`Job ${job.id} was cancelled`);
+        } else {
+            logger.error(`Job ${job.id} failed:`, error);
+        }
+
+        const stages = { ...job.stages };
+        for (const stage of Object.keys(stages)) {
+            if (stages[stage].status === 'running') {
+                stages[stage] = { ...stages[stage], status: 'failed' };
+            }
+        }
+        updateJob(job, {
+            status: cancelled ? 'cancelled' : 'failed',
+            stages,
+            error: cancelled ? 'Cancelled by the user' : error instanceof Error ? error.message : String(error),
+        });
+    } finally {
+        queue.controllers.delete(job.id);
+    }
+}
+
+// Queue a job to be run as soon as a slot is free
+export function enqueueJob(job: JobRecord, runner: JobRunner) {
+    queue.jobs.set(job.id, job);
+    queue.pending.push({ id: job.id, runner });
+    runNextJobs();
+}
+
+// Run a job right away, without waiting for a free slot, for requests whose client waits for the result
+// and would time out behind long processing jobs
+export function startJob(job: JobRecord, runner: JobRunner) {
+    queue.jobs.set(job.id, job);
+    runJob(job, runner).finally(() => evictWhenIdle(job.id));
+}
+
+// Cancel a queued or running job. Running jobs stop at the next abort check of their runner,
+// which also stops any external process they started. Returns false if the job can't be cancelled.
+export function cancelJob(id: string): boolean {
+    const job = queue.jobs.get(id);
+    if (!job || isFinished(job)) {
+        return false;
+    }
+
+    const pendingIndex = queue.pending.findIndex(pending => pending.id === id);
+    if (pendingIndex !== -1) {
+        queue.pending.splice(pendingIndex, 1);
+        updateJob(job, { status: 'cancelled', error: 'Cancelled by the user' });
+        evictWhenIdle(id);
+        return true;
+    }
+
+    const controller = queue.controllers.get(id);
+    if (!controller) {
+        return false;
+    }
+
+    logger.info(`Cancelling job ${id}`);
+    controller.abort();
+    return true;
+}
+
+// Run a failed or cancelled job again, e.g. one interrupted by a server restart. Stages already done
+// are kept; the runner is expected to pick up from the job's checkpoints. Returns false if the job can't be resumed.
+export function resumeJob(job: JobRecord, runner: JobRunner): boolean {
+    if (job.status !== 'failed' && job.status !== 'cancelled') {
+        return false;
+    }
+
+    const stages = { ...job.stages };
+    for (const stage of Object.keys(stages)) {
+        if (stages[stage].status !== 'done') {
+            stages[stage] = { ...stages[stage], status: 'pending', progress: 0 };
+        }
+    }
+
+    queue.jobs.set(job.id, job);
+    updateJob(job, { status: 'queued', stages, progress: overallProgress(stages), error: undefined, result: undefined });
+    logger.info(`Resuming job ${job.id}`);
+
+    enqueueJob(job, runner);
+    return true;
+}
+
+// Follow a job's updates and messages; returns a function to stop following it
+export function subscribeToJob(id: string, listener: (event: JobEvent) => void): () => void {
+    queue.events.on(id, listener);
+    return () => {
+        queue.events.off(id, listener);
+    };
+}
+
+// Wait until a job is done, has failed or was cancelled
+export function waitForJob(id: string): Promise<JobRecord> {
+    return new Promise((resolve, reject) => {
+        const job = queue.jobs.get(id);
+        if (!job) {
+            reject(new Error(`Unknown job ${id}`));
+            return;
+        }
+        if (isFinished(job)) {
+            resolve(job);
+            return;
+        }
+
+        const unsubscribe = subscribeToJob(id, event => {
+            if (event.type === 'update' && isFinished(event.job)) {
+                unsubscribe();
+                resolve(event.job);
+            }
+        });
+    });
+}
+
+// The stage currently running, for progress messages
+function currentStage(job: JobRecord): { stage?: string; stageProgress?: number } {
+    const running = Object.entries(job.stages).find(([, stage]) => stage.status === 'running');
+    return running ? { stage: running[0], stageProgress: running[1].progress } : {};
+}
+
+// Stream a job's progress, intermediate messages and result as Server-Sent Events
+export function streamJobEvents(job: JobRecord): Response {
+    const { response, send, close } = createEventStream();
+
+    const unsubscribe = subscribeToJob(job.id, event => {
+        let message: JobStreamMessage;
+        if (event.type === 'message') {
+            message = { jobId: job.id, ...event.data };
+        } else if (event.job.status === 'done') {
+            message = { jobId: job.id, complete: true, ...event.job.result };
+        } else if (event.job.status === 'failed') {
+            message = { jobId: job.id, error: event.job.error || 'Failed to process transcription' };
+        } else if (event.job.status === 'cancelled') {
+            message = { jobId: job.id, cancelled: true, error: 'Processing was cancelled' };
+        } else {
+            message = { jobId: job.id, status: event.job.status, progress: event.job.progress, ...currentStage(event.job) };
+        }
+
+        const finished = event.type === 'update' && isFinished(event.job);
+        send(message)
+            .catch(error => {
+                // The client went away (e.g. the tab was closed), so nobody is waiting for the result anymore
+                logger.error(`Error sending update of job ${job.id}, cancelling it:`, error);
+                unsubscribe();
+                cancelJob(job.id);
+            })
+            .finally(() => {
+                if (finished) {
+                    unsubscribe();
+                    close();
+                }
+            });
+    });
+
+    // Tell the client which job to follow right away
+    send({ jobId: job.id, status: job.status, progress: job.progress }).catch(() => unsubscribe());
+
+    return response;
+}
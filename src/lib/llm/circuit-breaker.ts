@@ -0,0 +1,62 @@
+import logger from '@/utils/logger';
+import { LlmRequestError } from './errors';
+import type { LlmProvider } from './types';
+
+export interface CircuitBreaker {
+    // Throws a circuit_open error while requests are suspended
+    check(): void;
+    recordSuccess(): void;
+    recordFailure(error: LlmRequestError): void;
+}
+
+interface CircuitState {
+    consecutiveFailures: number;
+    openUntil: number;
+}
+
+// Keep the circuits on globalThis, so that every job sees that a provider is down
+const globalForCircuits = globalThis as unknown as { llmCircuits?: Map<string, CircuitState> };
+const circuits = globalForCircuits.llmCircuits ?? new Map<string, CircuitState>();
+globalForCircuits.llmCircuits = circuits;
+
+const failureThreshold = () => Number(process.env.LLM_CIRCUIT_FAILURES) || 5;
+const cooldownMs = () => (Number(process.env.LLM_CIRCUIT_COOLDOWN_SECONDS) || 60) * 1000;
+
+// Suspend the requests to a provider after several consecutive server or network failures, so that jobs fall back
+// right away instead of retrying against a provider that is down. Once the cooldown is over, the next request
+// goes through: a success closes the circuit, a failure opens it again.
+export function getCircuitBreaker(provider: LlmProvider): CircuitBreaker {
+    const key = `${provider.id}/${provider.model}`;
+    let state = circuits.get(key);
+    if (!state) {
+        state = { consecutiveFailures: 0, openUntil: 0 };
+        circuits.set(key, state);
+    }
+    const circuit = state;
+
+    return {
+        check() {
+            const remaining = circuit.openUntil - Date.now();
+            if (remaining > 0) {
+                throw new LlmRequestError('circuit_open', `${provider.id} keeps failing, requests are suspended for ${Math.ceil(remaining / 1000)} more seconds`);
+            }
+        },
+
+        recordSuccess() {
+            circuit.consecutiveFailures = 0;
+        },
+
+        recordFailure(error) {
+            // Rate limits and bad outputs say nothing about whether the provider is up
+            if (error.kind !== 'server' && error.kind !== 'network') {
+                return;
+            }
+
+            circuit.consecutiveFailures++;
+            if (circuit.consecutiveFailures >= failureThreshold() && circuit.openUntil <= Date.now()) {
+                circuit.openUntil = Date.now() + cooldownMs();
+                logger.error(`${provider.id} failed ${circuit.consecutiveFailures} times in a row, suspending requests for ${cooldownMs() / 1000} seconds`);
+            }
+        },
+    };
+}
@@ -0,0 +1,73 @@
+// Why a request to a provider failed, which decides whether it's worth sending again
+export type LlmErrorKind =
+    | 'rate_limit' // Quota exceeded, retried after the delay the server asks for
+    | 'server' // 5xx responses and timeouts
+    | 'network' // The server couldn't be reached
+    | 'invalid_response' // The model's output isn't the JSON we asked for; another sample may be
+    | 'blocked' // Safety filters or recitation checks refused the paragraph
+    | 'invalid_request' // 4xx responses other than rate limits, e.g. a bad key or an unknown model
+    | 'circuit_open' // Requests are suspended because the provider keeps failing
+    | 'config'; // The provider isn't configured, e.g. its key or model is missing
+
+const RETRYABLE_KINDS: LlmErrorKind[] = ['rate_limit', 'server', 'network', 'invalid_response'];
+
+// A failed request to a provider, classified
+export class LlmRequestError extends Error {
+    kind: LlmErrorKind;
+    retryAfterMs?: number; // Delay requested by the server, if any
+
+    constructor(kind: LlmErrorKind, message: string, retryAfterMs?: number) {
+        super(message);
+        this.name = 'LlmRequestError';
+        this.kind = kind;
+        this.retryAfterMs = retryAfterMs;
+    }
+
+    get retryable(): boolean {
+        return RETRYABLE_KINDS.includes(this.kind);
+    }
+}
+
+// Kind of error for an HTTP status
+export function getErrorKindForStatus(status: number): LlmErrorKind {
+    if (status === 429) return 'rate_limit';
+    if (status >= 500 || status === 408) return 'server';
+    return 'invalid_request';
+}
+
+// Parse a Retry-After header, either a number of seconds or an HTTP date
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+    if (!value) return undefined;
+
+    const seconds = Number(value);
+    if (!isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Build the error for a failed HTTP response of an OpenAI-compatible or Ollama server
+export async function errorFromResponse(serverName: string, response: Response): Promise<LlmRequestError> {
+    const body = await response.text().catch(() => '');
+    return new LlmRequestError(
+        getErrorKindForStatus(response.status),
+        `${serverName} responded with ${response.status}: ${body}`,
+        parseRetryAfter(response.headers.get('retry-after'))
+    );
+}
+
+// Classify an error thrown while sending a request, keeping errors that are already classified
+export function classifyLlmError(error: unknown): LlmRequestError {
+    if (error instanceof LlmRequestError) {
+        return error;
+    }
+
+    // fetch rejects with a TypeError when the server can't be reached
+    if (error instanceof TypeError) {
+        return new LlmRequestError('network', error.message);
+    }
+
+    return new LlmRequestError('server', error instanceof Error ? error.message : String(error));
+}
@@ -0,0 +1,41 @@
+import { LlmConfigError, LlmProvider } from './types';
+import { createGeminiProvider } from './providers/gemini';
+import { createOpenAiProvider } from './providers/openai';
+import { createOllamaProvider } from './providers/ollama';
+import { createMockProvider } from './providers/mock';
+
+export * from './types';
+export { DEFAULT_GENERATION, PARAGRAPH_CLEANUP_INSTRUCTION, getMathRepairInstruction, getParagraphResponseSchema } from './prompt';
+export { parseParagraphCleanup } from './response';
+export { createRateLimiter, getRateLimiter, estimateTokens } from './rate-limit';
+export type { RateLimiter, RateLimits } from './rate-limit';
+export { LlmRequestError, classifyLlmError, errorFromResponse, getErrorKindForStatus, parseRetryAfter } from './errors';
+export type { LlmErrorKind } from './errors';
+export { getRetryPolicy, getRetryDelay, shouldRetry } from './retry';
+export type { RetryPolicy } from './retry';
+export { getCircuitBreaker } from './circuit-breaker';
+export type { CircuitBreaker } from './circuit-breaker';
+export { createMockProvider } from './providers/mock';
+export type { MockStep } from './providers/mock';
+
+// Available paragraph cleanup backends, by the id clients send along with the transcription
+const providerFactories: Record<string, () => LlmProvider> = {
+    gemini: createGeminiProvider,
+    openai: createOpenAiProvider,
+    ollama: createOllamaProvider,
+    mock: () => createMockProvider(),
+};
+
+export const llmProviderIds = Object.keys(providerFactories);
+
+// Get the requested provider, falling back to LLM_PROVIDER and then to Gemini
+export function getLlmProvider(providerId?: string | null): LlmProvider {
+    const id = providerId || process.env.LLM_PROVIDER || 'gemini';
+    const factory = providerFactories[id];
+
+    if (!factory) {
+        throw new LlmConfigError(`Unknown LLM provider "${id}". Available providers: ${llmProviderIds.join(', ')}.`);
+    }
+
+    return factory();
+}
@@ -0,0 +1,48 @@
+import { getLanguageDisplayName } from '@/lib/processing/languages';
+import type { GenerationSettings } from './types';
+
+export const DEFAULT_GENERATION: GenerationSettings = {
+    temperature: 0.15,
+    topP: 0.95,
+    topK: 20,
+    maxOutputTokens: 8192,
+};
+
+export const PARAGRAPH_CLEANUP_INSTRUCTION = `I am going to provide you with the excerpt of a transcription of a university lesson.
+The original text will probably contain speech disfluencies, repetitions, fragmented sentences, conversational markers (e.g., "ok?", "ehm", "cioè", "um", "uh", "umh"), and unclear transitions.
+Given this text, you should output a single, clear, professional and readable paragraph that doesn't lose any information and reasoning lines from the original text. It should read like the professor is speaking.
+Basically, you're going to be an assistant at deciphering such transcription by processing the excerpt.
+Please strictly preserve all technical language and phraseology. It's fundamental for the quality of the output.
+If you encounter any parts that are difficult to interpret, provide the best possible output text and include any caveats in the 'caveats' field.
+Words or sentences in other languages that are present in the excerpt should also be processed, but not translated. This is in order to preserve the original meaning and intent of the professor.
+Interpret formulas and mathematical expressions in LaTeX format based on speech in the original language of the excerpt. Be proactive and use your knowledge of the language to infer its correct interpretation.
+Write the equations using the inline LaTeX format, wrapped in $ only. Use the actual mathematical form instead of spanning things out in a long form.
+Chemical formulas should be written in LaTeX format, wrapped in $ only. For example, "H2O" should be written as $\\text{H}_2\\text{O}$.
+`;
+
+// Added to the instruction when the formulas of the previous answer for a paragraph couldn't be compiled
+export function getMathRepairInstruction(problems: Array<{ span: string; problem: string }>): string {
+    return `
+In a previous answer for this excerpt, the following formulas were not valid LaTeX:
+${problems.map(({ span, problem }) => `- ${span}: ${problem}`).join('\n')}
+Make sure that every formula has balanced braces, is not empty, isn't nested inside another formula, and only uses commands of the amsmath and amssymb packages.
+`;
+}
+
+// JSON schema of the response, in the subset understood by Gemini, OpenAI and Ollama alike
+export function getParagraphResponseSchema(language: string) {
+    return {
+        type: 'object',
+        properties: {
+            processed_text: {
+                type: 'string',
+                description: `The processed version of the paragraph. The text MUST be in its original language: ${getLanguageDisplayName(language)}.`
+            },
+            caveats: {
+                type: 'string',
+                description: `A not-too-long paragraph explaining the caveats encountered while processing the input text excerpt. If there were specific parts that were difficult to interpret, quote them and explain why. If the paragraph was successfully processed without issues, don't include this field. USE THIS FIELD ONLY IF STRICTLY NECESSARY.`
+            }
+        },
+        required: ['processed_text']
+    };
+}
@@ -0,0 +1,74 @@
+import {
+    GoogleGenerativeAI,
+    GoogleGenerativeAIFetchError,
+    GoogleGenerativeAIResponseError,
+    ResponseSchema,
+} from "@google/generative-ai";
+import { LlmConfigError, LlmProvider } from '../types';
+import { classifyLlmError, getErrorKindForStatus, LlmRequestError } from '../errors';
+import { DEFAULT_GENERATION } from '../prompt';
+import { parseParagraphCleanup } from '../response';
+
+// Retry delay the API sends along with quota errors, e.g. "34s"
+function getServerRetryDelay(error: GoogleGenerativeAIFetchError): number | undefined {
+    const retryInfo = error.errorDetails?.find(detail => detail['@type']?.endsWith('google.rpc.RetryInfo'));
+    const delay = typeof retryInfo?.retryDelay === 'string' ? parseFloat(retryInfo.retryDelay) : NaN;
+    return isNaN(delay) ? undefined : delay * 1000;
+}
+
+function classifyGeminiError(error: unknown): LlmRequestError {
+    if (error instanceof GoogleGenerativeAIFetchError && error.status) {
+        return new LlmRequestError(getErrorKindForStatus(error.status), error.message, getServerRetryDelay(error));
+    }
+    // Thrown by response.text() when safety filters or recitation checks blocked the response
+    if (error instanceof GoogleGenerativeAIResponseError) {
+        return new LlmRequestError('blocked', error.message);
+    }
+    // The SDK wraps network failures, and cancellations, in a generic error
+    if (error instanceof Error && error.message.startsWith('Error fetching from')) {
+        return new LlmRequestError('network', error.message);
+    }
+    return classifyLlmError(error);
+}
+
+// Google Gemini, through the Generative AI SDK
+export function createGeminiProvider(): LlmProvider {
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+        throw new LlmConfigError('GEMINI_API_KEY environment variable is not set');
+    }
+
+    const genAI = new GoogleGenerativeAI(apiKey);
+    const modelName = process.env.GEMINI_MODEL || 'learnlm-1.5-pro-experimental';
+    const generation = DEFAULT_GENERATION;
+
+    return {
+        id: 'gemini',
+        model: modelName,
+        generation,
+        requestsPerMinute: Number(process.env.GEMINI_REQUESTS_PER_MINUTE) || 15,
+        tokensPerMinute: Number(process.env.GEMINI_TOKENS_PER_MINUTE) || undefined,
+        async cleanupParagraph({ paragraph, systemInstruction, responseSchema, signal }) {
+            const model = genAI.getGenerativeModel({
+                model: modelName,
+                generationConfig: {
+                    ...generation,
+                    responseMimeType: "application/json",
+                    // The schema uses the same lowercase type names as the SDK's SchemaType
+                    responseSchema: responseSchema as ResponseSchema,
+                },
+                systemInstruction,
+            });
+
+            let responseText: string;
+            try {
+                const result = await model.generateContent(paragraph, { signal });
+                responseText = result.response.text();
+            } catch (error) {
+                throw classifyGeminiError(error);
+            }
+
+            return parseParagraphCleanup(responseText);
+        },
+    };
+}
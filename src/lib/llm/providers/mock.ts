@@ -0,0 +1,45 @@
+import { promises as fsPromises } from 'fs';
+import { LlmProvider, ParagraphCleanup } from '../types';
+import { DEFAULT_GENERATION } from '../prompt';
+import { parseParagraphCleanup } from '../response';
+
+// One scripted response: a result, a raw model output to parse, or an error to throw
+export type MockStep = ParagraphCleanup | { raw: string } | { error: string };
+
+// Deterministic provider for testing the processing without network access.
+// Answers with the steps of the script in order, then echoes the paragraphs back unchanged.
+// The script is the given one, or the JSON array at LLM_MOCK_SCRIPT if set.
+export function createMockProvider(script?: MockStep[]): LlmProvider {
+    const scriptPath = process.env.LLM_MOCK_SCRIPT;
+    let steps: Promise<MockStep[]> | null = script ? Promise.resolve([...script]) : null;
+
+    const loadSteps = () => {
+        if (!steps) {
+            steps = scriptPath
+                ? fsPromises.readFile(scriptPath, 'utf-8').then(content => JSON.parse(content) as MockStep[])
+                : Promise.resolve([]);
+        }
+        return steps;
+    };
+
+    return {
+        id: 'mock',
+        model: 'scripted',
+        generation: DEFAULT_GENERATION,
+        async cleanupParagraph({ paragraph, signal }) {
+            signal?.throwIfAborted();
+
+            const step = (await loadSteps()).shift();
+            if (!step) {
+                return { processed_text: paragraph };
+            }
+            if ('error' in step) {
+                throw new Error(step.error);
+            }
+            if ('raw' in step) {
+                return parseParagraphCleanup(step.raw);
+            }
+            return step;
+        },
+    };
+}
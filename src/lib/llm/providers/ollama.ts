@@ -0,0 +1,51 @@
+import { LlmConfigError, LlmProvider } from '../types';
+import { errorFromResponse } from '../errors';
+import { DEFAULT_GENERATION } from '../prompt';
+import { parseParagraphCleanup } from '../response';
+
+// A local Ollama server, constrained to the response schema through its structured outputs
+export function createOllamaProvider(): LlmProvider {
+    const host = (process.env.OLLAMA_HOST || 'http://localhost:11434').replace(/\/+$/, '');
+    const model = process.env.OLLAMA_MODEL;
+
+    if (!model) {
+        throw new LlmConfigError('OLLAMA_MODEL environment variable is not set');
+    }
+
+    const generation = DEFAULT_GENERATION;
+
+    return {
+        id: 'ollama',
+        model,
+        generation,
+        async cleanupParagraph({ paragraph, systemInstruction, responseSchema, signal }) {
+            const response = await fetch(`${host}/api/chat`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    model,
+                    messages: [
+                        { role: 'system', content: systemInstruction },
+                        { role: 'user', content: paragraph },
+                    ],
+                    format: responseSchema,
+                    stream: false,
+                    options: {
+                        temperature: generation.temperature,
+                        top_p: generation.topP,
+                        top_k: generation.topK,
+                        num_predict: generation.maxOutputTokens,
+                    },
+                }),
+                signal,
+            });
+
+            if (!response.ok) {
+                throw await errorFromResponse('Ollama', response);
+            }
+
+            const data = await response.json();
+            return parseParagraphCleanup(data.message?.content ?? '');
+        },
+    };
+}
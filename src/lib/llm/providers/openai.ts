@@ -0,0 +1,66 @@
+import { LlmConfigError, LlmProvider } from '../types';
+import { errorFromResponse, LlmRequestError } from '../errors';
+import { DEFAULT_GENERATION } from '../prompt';
+import { parseParagraphCleanup } from '../response';
+
+// Any server exposing the OpenAI chat completions API: OpenAI itself, vLLM, LM Studio, llama.cpp, etc.
+// Servers that don't support JSON schemas can be switched to plain JSON mode with OPENAI_JSON_MODE=json_object.
+export function createOpenAiProvider(): LlmProvider {
+    const baseUrl = (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, '');
+    const apiKey = process.env.OPENAI_API_KEY;
+    const model = process.env.OPENAI_MODEL;
+    const jsonMode = process.env.OPENAI_JSON_MODE || 'json_schema';
+
+    if (!model) {
+        throw new LlmConfigError('OPENAI_MODEL environment variable is not set');
+    }
+    // Local servers usually don't need a key, OpenAI does
+    if (!apiKey && baseUrl.startsWith('https://api.openai.com')) {
+        throw new LlmConfigError('OPENAI_API_KEY environment variable is not set');
+    }
+
+    const generation = DEFAULT_GENERATION;
+
+    return {
+        id: 'openai',
+        model,
+        generation,
+        requestsPerMinute: Number(process.env.OPENAI_REQUESTS_PER_MINUTE) || undefined,
+        tokensPerMinute: Number(process.env.OPENAI_TOKENS_PER_MINUTE) || undefined,
+        async cleanupParagraph({ paragraph, systemInstruction, responseSchema, signal }) {
+            const response = await fetch(`${baseUrl}/chat/completions`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+                },
+                body: JSON.stringify({
+                    model,
+                    messages: [
+                        { role: 'system', content: systemInstruction },
+                        { role: 'user', content: paragraph },
+                    ],
+                    temperature: generation.temperature,
+                    top_p: generation.topP,
+                    max_tokens: generation.maxOutputTokens,
+                    response_format: jsonMode === 'json_object'
+                        ? { type: 'json_object' }
+                        : { type: 'json_schema', json_schema: { name: 'paragraph_cleanup', schema: responseSchema } },
+                }),
+                signal,
+            });
+
+            if (!response.ok) {
+                throw await errorFromResponse('OpenAI-compatible server', response);
+            }
+
+            const data = await response.json();
+            const content = data.choices?.[0]?.message?.content;
+            if (typeof content !== 'string') {
+                throw new LlmRequestError('invalid_response', 'OpenAI-compatible server returned no message content');
+            }
+
+            return parseParagraphCleanup(content);
+        },
+    };
+}
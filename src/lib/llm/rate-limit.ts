@@ -0,0 +1,141 @@
+import { setTimeout as sleep } from 'timers/promises';
+import logger from '@/utils/logger';
+import type { LlmProvider } from './types';
+
+// Requests and tokens allowed per minute; unlimited when not set
+export interface RateLimits {
+    requestsPerMinute?: number;
+    tokensPerMinute?: number;
+}
+
+export interface RateLimiter {
+    // Wait until a request of the given estimated size fits in the budgets, then take it from them
+    acquire(tokens: number, signal?: AbortSignal): Promise<void>;
+    // Hold every request back for a while, e.g. when the server answered with a Retry-After
+    pause(ms: number): void;
+}
+
+// Token buckets refilled continuously, holding at most a minute worth of budget
+interface Buckets {
+    requests: number;
+    tokens: number;
+    refilledAt: number;
+    pausedUntil: number;
+}
+
+// Keep the limiters on globalThis, so that every job and route shares the same budgets
+const globalForLimiters = globalThis as unknown as { llmRateLimiters?: Map<string, RateLimiter> };
+const limiters = globalForLimiters.llmRateLimiters ?? new Map<string, RateLimiter>();
+globalForLimiters.llmRateLimiters = limiters;
+
+// Rough token count of a text: about four characters per token, but a token per character for
+// Chinese, Japanese and Korean
+export function estimateTokens(text: string): number {
+    const ideographs = text.match(/[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu)?.length ?? 0;
+    return Math.ceil((text.length - ideographs) / 4) + ideographs;
+}
+
+// Settle like the promise, or reject as soon as the signal is aborted. The listener is removed once settled,
+// as a job's signal is shared by all of its requests.
+async function abortable<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+    signal.throwIfAborted();
+
+    let onAbort = () => { };
+    const aborted = new Promise<never>((_, reject) => {
+        onAbort = () => reject(signal.reason);
+        signal.addEventListener('abort', onAbort, { once: true });
+    });
+
+    try {
+        return await Promise.race([promise, aborted]);
+    } finally {
+        signal.removeEventListener('abort', onAbort);
+    }
+}
+
+// A limiter serving requests in the order they arrived, so that a big request isn't starved by small ones
+export function createRateLimiter({ requestsPerMinute = Infinity, tokensPerMinute = Infinity }: RateLimits): RateLimiter {
+    const buckets: Buckets = { requests: requestsPerMinute, tokens: tokensPerMinute, refilledAt: Date.now(), pausedUntil: 0 };
+    let lastTurn: Promise<void> = Promise.resolve();
+
+    const refill = () => {
+        const now = Date.now();
+        const elapsedMinutes = (now - buckets.refilledAt) / 60000;
+        // Unlimited budgets stay full, and Infinity * 0 would make them NaN
+        if (requestsPerMinute !== Infinity) {
+            buckets.requests = Math.min(requestsPerMinute, buckets.requests + elapsedMinutes * requestsPerMinute);
+        }
+        if (tokensPerMinute !== Infinity) {
+            buckets.tokens = Math.min(tokensPerMinute, buckets.tokens + elapsedMinutes * tokensPerMinute);
+        }
+        buckets.refilledAt = now;
+    };
+
+    const take = async (tokens: number, signal?: AbortSignal) => {
+        // A request bigger than the whole budget only has to wait for a full bucket
+        const cost = Math.min(tokens, tokensPerMinute);
+
+        while (true) {
+            signal?.throwIfAborted();
+
+            const pauseTime = buckets.pausedUntil - Date.now();
+            if (pauseTime > 0) {
+                logger.warn(`Requests are paused by the server. Waiting ${pauseTime}ms before next request...`);
+                await sleep(pauseTime, undefined, { signal });
+                continue;
+            }
+
+            refill();
+
+            if (buckets.requests >= 1 && buckets.tokens >= cost) {
+                buckets.requests -= 1;
+                buckets.tokens -= cost;
+                return;
+            }
+
+            // Wait until both buckets are refilled enough
+            const missingRequests = Math.max(0, 1 - buckets.requests);
+            const missingTokens = Math.max(0, cost - buckets.tokens);
+            const waitTime = Math.ceil(Math.max(
+                (missingRequests / requestsPerMinute) * 60000,
+                (missingTokens / tokensPerMinute) * 60000
+            ));
+            logger.warn(`Rate limit reached. Waiting ${waitTime}ms before next request...`);
+            await sleep(waitTime, undefined, { signal });
+        }
+    };
+
+    return {
+        acquire(tokens, signal) {
+            if (requestsPerMinute === Infinity && tokensPerMinute === Infinity && buckets.pausedUntil <= Date.now()) {
+                return Promise.resolve();
+            }
+
+            const turn = lastTurn.then(() => take(tokens, signal));
+            lastTurn = turn.catch(() => { }); // A cancelled request doesn't hold up the ones behind it
+
+            // Give up right away when cancelled, even while waiting behind other requests
+            return signal ? abortable(turn, signal) : turn;
+        },
+
+        pause(ms) {
+            buckets.pausedUntil = Math.max(buckets.pausedUntil, Date.now() + ms);
+        },
+    };
+}
+
+// The limiter shared by every request to the same provider and model
+export function getRateLimiter(provider: LlmProvider): RateLimiter {
+    const key = `${provider.id}/${provider.model}`;
+    let limiter = limiters.get(key);
+
+    if (!limiter) {
+        limiter = createRateLimiter({
+            requestsPerMinute: provider.requestsPerMinute,
+            tokensPerMinute: provider.tokensPerMinute,
+        });
+        limiters.set(key, limiter);
+    }
+
+    return limiter;
+}
@@ -0,0 +1,38 @@
+import logger from '@/utils/logger';
+import type { ParagraphCleanup } from './types';
+import { LlmRequestError } from './errors';
+
+// Parse the JSON a model produced for a paragraph. Models sometimes wrap it in prose or code fences,
+// so fall back to the outermost braces. Throws an invalid_response error when there's no usable JSON.
+export function parseParagraphCleanup(responseText: string): ParagraphCleanup {
+    let parsedResponse;
+    try {
+        parsedResponse = JSON.parse(responseText);
+    } catch (e) {
+        logger.warn("Failed to parse JSON response:", e);
+
+        // If response is not valid JSON, try to extract JSON from the text
+        const jsonMatch = responseText.match(/\{[\s\S]*\}/);
+        if (!jsonMatch) {
+            logger.error("Response is not valid JSON and couldn't extract JSON");
+            throw new LlmRequestError('invalid_response', "Invalid JSON response");
+        }
+
+        try {
+            parsedResponse = JSON.parse(jsonMatch[0]);
+            logger.info("Successfully extracted JSON from response");
+        } catch (e2) {
+            logger.error("Failed to parse JSON from extracted match:", e2);
+            throw new LlmRequestError('invalid_response', "Failed to parse JSON from extracted match");
+        }
+    }
+
+    if (typeof parsedResponse !== 'object' || parsedResponse === null) {
+        throw new LlmRequestError('invalid_response', "Response is not a JSON object");
+    }
+
+    return {
+        processed_text: typeof parsedResponse.processed_text === 'string' ? parsedResponse.processed_text : '',
+        caveats: typeof parsedResponse.caveats === 'string' ? parsedResponse.caveats : undefined,
+    };
+}
@@ -0,0 +1,35 @@
+import type { LlmRequestError } from './errors';
+
+export interface RetryPolicy {
+    maxRetries: number;
+    baseDelayMs: number; // Delay before the first retry, doubled at each retry
+    maxDelayMs: number;
+    maxRetryAfterMs: number; // Give up when the server asks to wait longer than this, e.g. for a daily quota
+}
+
+export function getRetryPolicy(): RetryPolicy {
+    return {
+        maxRetries: Number(process.env.LLM_MAX_RETRIES ?? 3),
+        baseDelayMs: Number(process.env.LLM_RETRY_BASE_SECONDS ?? 2) * 1000,
+        maxDelayMs: Number(process.env.LLM_RETRY_MAX_SECONDS ?? 60) * 1000,
+        maxRetryAfterMs: Number(process.env.LLM_MAX_RETRY_AFTER_SECONDS ?? 300) * 1000,
+    };
+}
+
+// Whether a failed request should be sent again, after `retry` retries
+export function shouldRetry(policy: RetryPolicy, retry: number, error: LlmRequestError): boolean {
+    return error.retryable
+        && retry < policy.maxRetries
+        && (error.retryAfterMs === undefined || error.retryAfterMs <= policy.maxRetryAfterMs);
+}
+
+// Delay before retrying a failed request: the one the server asked for if any, exponential backoff otherwise.
+// The backoff is jittered between half and all of its value, so that concurrent requests don't retry in lockstep.
+export function getRetryDelay(policy: RetryPolicy, retry: number, error: LlmRequestError): number {
+    if (error.retryAfterMs !== undefined) {
+        return error.retryAfterMs;
+    }
+
+    const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retry);
+    return Math.round(backoff / 2 + Math.random() * backoff / 2);
+}
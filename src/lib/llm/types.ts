@@ -0,0 +1,39 @@
+// What every provider returns for a paragraph, whatever model it runs on
+export interface ParagraphCleanup {
+    processed_text: string;
+    caveats?: string; // Parts that were difficult to interpret, if any
+}
+
+// A paragraph to clean up, along with the instructions for the model
+export interface ParagraphCleanupRequest {
+    paragraph: string;
+    systemInstruction: string;
+    responseSchema: object; // JSON schema of the ParagraphCleanup the model must produce
+    signal?: AbortSignal;
+}
+
+// Sampling parameters shared by all the providers
+export interface GenerationSettings {
+    temperature: number;
+    topP: number;
+    topK: number;
+    maxOutputTokens: number;
+}
+
+// A backend for structured paragraph cleanup
+export interface LlmProvider {
+    id: string;
+    model: string;
+    generation: GenerationSettings;
+    requestsPerMinute?: number; // Rate limits of the backend, unlimited when not set
+    tokensPerMinute?: number;
+    cleanupParagraph(request: ParagraphCleanupRequest): Promise<ParagraphCleanup>;
+}
+
+// Raised when a provider can't be used, e.g. a missing API key or model name
+export class LlmConfigError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'LlmConfigError';
+    }
+}
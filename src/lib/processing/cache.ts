@@ -0,0 +1,77 @@
+import path from 'path';
+import crypto from 'crypto';
+import { promises as fsPromises } from 'fs';
+import logger from '@/utils/logger';
+import { writeFileAtomically } from '@/lib/server-utils';
+
+// How a job uses the response cache: reuse cached responses, ignore the cache entirely,
+// or drop the cached responses of its paragraphs and cache the new ones
+export type CacheMode = 'use' | 'bypass' | 'clear';
+
+export const cacheModes: CacheMode[] = ['use', 'bypass', 'clear'];
+
+// Everything that determines the model's response to a paragraph
+export interface CacheKeyParts {
+    model: string;
+    systemInstruction: string;
+    generationConfig: object;
+    paragraph: string;
+}
+
+export interface ResponseCache {
+    get(key: string): Promise<object | null>;
+    set(key: string, response: object): Promise<void>;
+    delete(key: string): Promise<void>;
+}
+
+// Directory holding the cached responses, shared by every job
+export function getResponseCacheDirectory(): string {
+    return process.env.LLM_CACHE_DIR || path.join(process.cwd(), 'cache', 'llm');
+}
+
+export function isCacheMode(value: string): value is CacheMode {
+    return (cacheModes as string[]).includes(value);
+}
+
+// Hash the parts of a request, so that changing the prompt, the config or the model misses the cache
+export function getCacheKey(parts: CacheKeyParts): string {
+    return crypto
+        .createHash('sha256')
+        .update(JSON.stringify([parts.model, parts.systemInstruction, parts.generationConfig, parts.paragraph]))
+        .digest('hex');
+}
+
+// Cache each response in its own file, in subdirectories named after the first characters of the key
+export function createResponseCache(directory = getResponseCacheDirectory()): ResponseCache {
+    const entryPath = (key: string) => path.join(directory, key.slice(0, 2), `${key}.json`);
+
+    return {
+        async get(key) {
+            try {
+                const entry = JSON.parse(await fsPromises.readFile(entryPath(key), 'utf-8'));
+                return entry.response;
+            } catch {
+                return null;
+            }
+        },
+
+        async set(key, response) {
+            try {
+                await fsPromises.mkdir(path.dirname(entryPath(key)), { recursive: true });
+                await writeFileAtomically(entryPath(key), JSON.stringify({ createdAt: new Date().toISOString(), response }));
+            } catch (error) {
+                logger.error(`Error caching response ${key}:`, error);
+            }
+        },
+
+        async delete(key) {
+            await fsPromises.rm(entryPath(key), { force: true });
+        },
+    };
+}
+
+// Remove every cached response
+export async function clearResponseCache(directory = getResponseCacheDirectory()) {
+    await fsPromises.rm(directory, { recursive: true, force: true });
+    logger.info(`Cleared the response cache in ${directory}`);
+}
@@ -0,0 +1,81 @@
+import path from 'path';
+import { promises as fsPromises } from 'fs';
+import logger from '@/utils/logger';
+import { writeFileAtomically } from '@/lib/server-utils';
+import type { TranscriptionResult } from '@/lib/transcription/types';
+import type { CacheMode } from './cache';
+import type { DocumentMetadata } from './document';
+
+// What a job needs to be run again: the transcription and how to name its documents
+export interface ProcessingInput {
+    transcription: TranscriptionResult;
+    sourceFilename: string;
+    language: string;
+    cacheMode?: CacheMode;
+    llmProvider?: string; // Id of the LLM provider, the default one when not set
+    template?: string; // ID of the document template, the default one when not set
+    metadata?: DocumentMetadata;
+}
+
+// The state of a paragraph once it went through the model
+export interface ProcessedParagraph {
+    paragraph: string; // The input paragraph, to tell whether the checkpoint still applies
+    status: 'done' | 'failed';
+    processed_text: string;
+    caveats: string;
+    repairs?: string[]; // What was done to the model's output to make it compile, e.g. fixing its formulas
+    error?: string;
+}
+
+export interface ParagraphCheckpoint {
+    get(index: number, paragraph: string): Promise<ProcessedParagraph | null>;
+    save(index: number, result: ProcessedParagraph): Promise<void>;
+}
+
+// Save the input of a job in its directory, so that the job can be resumed later
+export async function saveProcessingInput(directory: string, input: ProcessingInput) {
+    await fsPromises.mkdir(directory, { recursive: true });
+    await writeFileAtomically(path.join(directory, 'input.json'), JSON.stringify(input));
+}
+
+export async function loadProcessingInput(directory: string): Promise<ProcessingInput | null> {
+    try {
+        return JSON.parse(await fsPromises.readFile(path.join(directory, 'input.json'), 'utf-8'));
+    } catch {
+        return null;
+    }
+}
+
+// Checkpoint each processed paragraph to its own file under the job's directory,
+// so that a failed or interrupted job only has to process what's left
+export function createParagraphCheckpoint(directory: string): ParagraphCheckpoint {
+    const paragraphsDirectory = path.join(directory, 'paragraphs');
+    const paragraphPath = (index: number) => path.join(paragraphsDirectory, `${String(index).padStart(5, '0')}.json`);
+
+    return {
+        async get(index, paragraph) {
+            try {
+                const saved: ProcessedParagraph = JSON.parse(await fsPromises.readFile(paragraphPath(index), 'utf-8'));
+
+                // The segmentation changed since the checkpoint was saved
+                if (saved.paragraph !== paragraph) {
+                    return null;
+                }
+
+                return saved;
+            } catch {
+                return null;
+            }
+        },
+
+        async save(index, result) {
+            try {
+                await fsPromises.mkdir(paragraphsDirectory, { recursive: true });
+                await writeFileAtomically(paragraphPath(index), JSON.stringify(result, null, 2));
+            } catch (error) {
+                // Losing a checkpoint only means processing the paragraph again on resume
+                logger.error(`Error saving the checkpoint of paragraph ${index + 1}:`, error);
+            }
+        },
+    };
+}
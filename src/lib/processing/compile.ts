@@ -0,0 +1,208 @@
+import { writeFile, readFile } from 'fs/promises';
+import path from 'path';
+import fs from 'fs';
+import logger from '@/utils/logger';
+import { createTempDirectory, execFilePromise } from '@/lib/server-utils';
+import { findParagraphAtLine } from './latex';
+
+// TeX engines that can compile the documents. Tectonic, XeLaTeX and latexmk (running XeLaTeX) support
+// every script, while pdfLaTeX only supports languages written in the Latin script.
+export type TexEngine = 'tectonic' | 'xelatex' | 'pdflatex' | 'latexmk';
+
+export const texEngines: TexEngine[] = ['tectonic', 'xelatex', 'pdflatex', 'latexmk'];
+
+export interface CompileOptions {
+    engine: TexEngine;
+    command: string; // Path of the engine's executable
+    timeoutSeconds: number; // The engine is killed when it runs for longer
+}
+
+// Name of the LaTeX file inside its compilation directory, so that the source filename never reaches the engine
+const COMPILED_FILENAME = 'document.tex';
+
+export function getCompileOptions(): CompileOptions {
+    const engine = texEngines.find(texEngine => texEngine === process.env.LATEX_ENGINE) || 'tectonic';
+    if (process.env.LATEX_ENGINE && process.env.LATEX_ENGINE !== engine) {
+        logger.warn(`Unknown LaTeX engine "${process.env.LATEX_ENGINE}", using tectonic instead`);
+    }
+
+    // The compilation runs in a directory of its own, so a relative path to tectonic is resolved from here
+    const command = engine === 'tectonic'
+        ? path.resolve(process.env.TECTONIC_PATH || './tectonic')
+        : process.env.LATEX_ENGINE_PATH || engine;
+
+    return {
+        engine,
+        command,
+        timeoutSeconds: Number(process.env.LATEX_COMPILE_TIMEOUT_SECONDS) || 120,
+    };
+}
+
+// Command line arguments of each engine, stopping at the first error instead of waiting for input
+function getEngineArguments(engine: TexEngine, texFilename: string): string[] {
+    const latexArguments = ['-interaction=nonstopmode', '-halt-on-error', '-file-line-error'];
+
+    switch (engine) {
+        case 'tectonic':
+            return [texFilename];
+        case 'latexmk':
+            return ['-xelatex', ...latexArguments, texFilename];
+        default:
+            return [...latexArguments, texFilename];
+    }
+}
+
+// An error reported by the TeX engine, mapped back to the paragraph it comes from
+export interface CompileError {
+    line?: number; // Line of the LaTeX document
+    paragraph?: number; // Index of the paragraph on that line, if it's one of the paragraphs
+    message: string;
+}
+
+export interface CompiledDocument {
+    latexFilename: string;
+    latexContent: string;
+    pdfFilename: string;
+    pdfContent: Buffer | null; // Null when the PDF compilation failed
+    compileErrors: CompileError[]; // Why the PDF compilation failed
+    log: string; // Output of the TeX engine
+}
+
+// Parse the errors of a compilation log, either in the `file.tex:42: message` form of tectonic and
+// -file-line-error, or in the `! message` form of TeX followed by an `l.42` line
+export function parseCompileLog(log: string, latexContent: string): CompileError[] {
+    const errors: CompileError[] = [];
+    const lines = log.split('\n');
+
+    lines.forEach((text, index) => {
+        const fileLineError = text.match(/^(?:error: )?[^:]*\.tex:(\d+): (.+)$/);
+        if (fileLineError) {
+            errors.push({ line: Number(fileLineError[1]), message: fileLineError[2].trim() });
+            return;
+        }
+
+        if (text.startsWith('! ')) {
+            // The line number comes a few lines later, after the context of the error
+            const lineNumber = lines.slice(index + 1, index + 10).map(next => next.match(/^l\.(\d+)/)?.[1]).find(Boolean);
+            errors.push({ line: lineNumber ? Number(lineNumber) : undefined, message: text.slice(2).trim() });
+            return;
+        }
+
+        // Errors that aren't about a line, e.g. a missing font or package
+        const otherError = text.match(/^error: (.+)$/);
+        if (otherError && !otherError[1].startsWith('halted on')) {
+            errors.push({ message: otherError[1].trim() });
+        }
+    });
+
+    // The same error may be reported by both the engine and its driver
+    const uniqueErrors = errors.filter((error, index) =>
+        errors.findIndex(other => other.line === error.line && other.message === error.message) === index);
+
+    return uniqueErrors.map(error => {
+        const paragraph = error.line === undefined ? null : findParagraphAtLine(latexContent, error.line);
+        return paragraph === null ? error : { ...error, paragraph };
+    });
+}
+
+// Compile a LaTeX document to PDF in a directory of its own, named after the source file and the current date
+export async function compileLatexDocument(
+    latexContent: string,
+    sourceFilename: string,
+    signal?: AbortSignal,
+    { engine, command, timeoutSeconds }: CompileOptions = getCompileOptions()
+): Promise<CompiledDocument> {
+    // Generate filenames
+    const now = new Date();
+    const datePart = now.toISOString().replace(/[:\-]/g, '').split('.')[0];
+    const baseFilename = sourceFilename.replace(/\.[^/.]+$/, ""); // Remove existing extension
+    const texFilename = `${baseFilename}_${datePart}.tex`;
+    const pdfFilename = `${baseFilename}_${datePart}.pdf`;
+
+    let pdfContent: Buffer | null = null;
+    let log = '';
+    let timedOut = false;
+    let failure: string | null = null; // Why the engine failed, when it didn't even leave a log
+
+    // Every compilation gets its own directory, so that jobs never see each other's files
+    const directory = await createTempDirectory();
+    const texFilePath = path.join(directory, COMPILED_FILENAME);
+    const generatedPdfPath = path.join(directory, COMPILED_FILENAME.replace(/\.tex$/, '.pdf'));
+
+    try {
+        // Write the LaTeX file temporarily
+        await writeFile(texFilePath, latexContent);
+        logger.info(`Wrote LaTeX file to: ${texFilePath}`);
+
+        // Try to compile the PDF, killing the engine if the job is cancelled or if it takes too long
+        const { stdout, stderr } = await execFilePromise(command, getEngineArguments(engine, COMPILED_FILENAME), {
+            cwd: directory,
+            signal,
+            timeout: timeoutSeconds * 1000,
+            maxBuffer: 16 * 1024 * 1024,
+        });
+        if (stderr) {
+            logger.error(`stderr: ${stderr}`);
+        }
+        logger.info(`stdout: ${stdout}`);
+        log = `${stdout}\n${stderr}`;
+
+        // Check if the PDF was generated
+        logger.info(`Looking for PDF at: ${generatedPdfPath}`);
+        if (fs.existsSync(generatedPdfPath)) {
+            // Read the generated PDF
+            pdfContent = await readFile(generatedPdfPath);
+            logger.info(`Successfully read PDF file: ${generatedPdfPath}`);
+        } else {
+            logger.error(`PDF file not found at: ${generatedPdfPath}`);
+        }
+    } catch (error) {
+        // A cancellation must reach the job, not be reported as a failed compilation
+        if (signal?.aborted) {
+            throw error;
+        }
+        logger.error('Error compiling PDF:', error);
+
+        // The output of the engine comes along with the error when it exits with a failure
+        const { stdout = '', stderr = '', killed = false, code } = error as { stdout?: string; stderr?: string; killed?: boolean; code?: unknown };
+        log = `${stdout}\n${stderr}`;
+        timedOut = killed;
+
+        // The engine couldn't be started, e.g. it's not installed: there's no log to tell why
+        const message = error instanceof Error ? error.message : String(error);
+        failure = code === 'ENOENT' || code === 'EACCES'
+            ? `The TeX engine ${command} could not be started: ${message}`
+            : message;
+    } finally {
+        // Clean up the compilation directory, with the LaTeX file, the PDF and the auxiliary files
+        try {
+            await fs.promises.rm(directory, { recursive: true, force: true });
+            logger.info(`Deleted directory: ${directory}`);
+        } catch (error) {
+            logger.error(`Error deleting directory ${directory}:`, error);
+        }
+    }
+
+    const compileErrors = pdfContent ? [] : parseCompileLog(log, latexContent);
+    if (timedOut) {
+        compileErrors.push({ message: `The compilation was stopped after ${timeoutSeconds} seconds` });
+    }
+    if (!pdfContent && compileErrors.length === 0) {
+        compileErrors.push({ message: failure ?? 'The TeX engine produced no PDF' });
+    }
+    if (!log.trim() && failure) {
+        log = failure;
+    }
+    if (compileErrors.length > 0) {
+        logger.error('Compile errors:', compileErrors);
+    }
+
+    return {
+        latexFilename: texFilename,
+        latexContent,
+        pdfFilename,
+        pdfContent,
+        compileErrors,
+        log,
+    };
+}
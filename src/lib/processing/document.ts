@@ -0,0 +1,111 @@
+import type { TranscriptParagraph } from './segmentation';
+import type { ParagraphFailure, ProcessedParagraphs } from './paragraphs';
+
+// A processed paragraph, along with where it comes from in the transcription
+export interface DocumentParagraph {
+    speakerId: string | null;
+    start?: number; // Seconds from the start of the recording
+    end?: number;
+    rawText: string; // The paragraph as transcribed
+    text: string; // The paragraph as processed by the LLM, or as transcribed if its processing failed
+    caveats: string[]; // Parts that were difficult to interpret, rendered as footnotes
+    failure?: Omit<ParagraphFailure, 'paragraph'>; // Why the paragraph was left as transcribed
+    verbatim?: boolean; // Written as plain text, formulas included, because it broke the compilation
+}
+
+// What the document is about, as given when the transcription was processed, filled into the document template
+export interface DocumentMetadata {
+    title?: string;
+    course?: string;
+    lecturer?: string;
+    lessonNumber?: string;
+    date?: string; // As given, e.g. 2025-03-04
+}
+
+// The structured document that the LaTeX document is generated from, and that can be exported as JSON
+export interface TranscriptDocument {
+    sourceFilename: string;
+    language: string;
+    createdAt: string;
+    metadata: DocumentMetadata;
+    paragraphs: DocumentParagraph[];
+}
+
+const METADATA_FIELDS: Record<keyof DocumentMetadata, string> = {
+    title: 'title',
+    course: 'course',
+    lecturer: 'lecturer',
+    lessonNumber: 'lesson_number',
+    date: 'date',
+};
+
+// Read the metadata fields of a form, leaving out the empty ones
+export function readDocumentMetadata(formData: FormData): DocumentMetadata {
+    const metadata: DocumentMetadata = {};
+    for (const [key, field] of Object.entries(METADATA_FIELDS) as Array<[keyof DocumentMetadata, string]>) {
+        const value = (formData.get(field) as string | null)?.trim();
+        if (value) {
+            metadata[key] = value;
+        }
+    }
+    return metadata;
+}
+
+// Build the document from the paragraphs of the transcription and the result of their processing,
+// which are in the same order
+export function buildTranscriptDocument(
+    paragraphs: TranscriptParagraph[],
+    { texts, footnotes, failures }: ProcessedParagraphs,
+    sourceFilename: string,
+    language: string,
+    metadata: DocumentMetadata = {}
+): TranscriptDocument {
+    const failuresByParagraph = new Map(failures.map(({ paragraph, ...failure }) => [paragraph, failure]));
+
+    return {
+        sourceFilename,
+        language,
+        createdAt: new Date().toISOString(),
+        metadata,
+        paragraphs: paragraphs.map((paragraph, index) => ({
+            speakerId: paragraph.speakerId,
+            start: paragraph.start,
+            end: paragraph.end,
+            rawText: paragraph.text,
+            text: texts[index] ?? paragraph.text,
+            caveats: footnotes.get(index) ?? [],
+            failure: failuresByParagraph.get(index),
+        })),
+    };
+}
+
+// Consecutive paragraphs of the same speaker, along with their index in the document.
+// Paragraphs without a speaker make up a turn of their own each, without a speaker.
+export interface DocumentTurn {
+    speakerId: string | null;
+    start?: number;
+    end?: number;
+    paragraphs: Array<{ index: number; paragraph: DocumentParagraph }>;
+}
+
+// Group the paragraphs into speaker turns, in the order they were spoken
+export function groupIntoTurns(paragraphs: DocumentParagraph[]): DocumentTurn[] {
+    const turns: DocumentTurn[] = [];
+
+    paragraphs.forEach((paragraph, index) => {
+        const turn = turns[turns.length - 1];
+        if (turn && paragraph.speakerId !== null && turn.speakerId === paragraph.speakerId) {
+            turn.paragraphs.push({ index, paragraph });
+            turn.end = paragraph.end ?? turn.end;
+        } else {
+            turns.push({ speakerId: paragraph.speakerId, start: paragraph.start, end: paragraph.end, paragraphs: [{ index, paragraph }] });
+        }
+    });
+
+    return turns;
+}
+
+// Name of a speaker as shown in the documents, e.g. "Speaker 1" for speaker_1
+export function formatSpeakerName(speakerId: string): string {
+    return `Speaker ${speakerId.replace('speaker_', '')}`;
+}
@@ -0,0 +1,71 @@
+import { Document, FootnoteReferenceRun, HeadingLevel, Math as MathEquation, Packer, Paragraph, ParagraphChild, TextRun } from 'docx';
+import { formatDuration } from '@/lib/transcription/summary';
+import { formatSpeakerName, groupIntoTurns, TranscriptDocument } from './document';
+import { splitMathSpans, validateMath } from './math';
+import { convertMathToOmml } from './omml';
+
+// Remove the escapes the model put in prose for LaTeX, e.g. \% and \$
+const unescapeProse = (text: string) => text.replace(/\\([%$&#_{}])/g, '$1');
+
+// Runs of a paragraph's text: prose as text, and math as Word equations.
+// Formulas that can't be compiled are kept as plain text, like in the LaTeX document.
+function convertText(text: string, verbatim?: boolean): ParagraphChild[] {
+    if (verbatim) {
+        return [new TextRun(text)];
+    }
+
+    return splitMathSpans(text).map(span => {
+        if (!span.math) {
+            return new TextRun(unescapeProse(span.text));
+        }
+        return validateMath(span.text) === null
+            ? new MathEquation({ children: convertMathToOmml(span.text) })
+            : new TextRun(span.text);
+    });
+}
+
+// Generate a Word document from the processed paragraphs, in the order they were spoken: the title and metadata
+// of the document, a heading for each speaker's turn, and the caveats as footnotes
+export async function generateDocxDocument({ sourceFilename, metadata, paragraphs }: TranscriptDocument): Promise<Buffer> {
+    const title = metadata.title || metadata.course || 'Transcription';
+    const details = [
+        metadata.title ? metadata.course : undefined,
+        metadata.lecturer,
+        metadata.lessonNumber && `Lesson ${metadata.lessonNumber}`,
+        metadata.date,
+    ].filter((detail): detail is string => !!detail);
+
+    const content: Paragraph[] = [new Paragraph({ text: title, heading: HeadingLevel.TITLE })];
+    if (details.length > 0) {
+        content.push(new Paragraph({ children: [new TextRun({ text: details.join(' · '), italics: true })] }));
+    }
+
+    // Footnotes are numbered from 1 in the order they are referenced
+    const footnotes: Record<number, { children: Paragraph[] }> = {};
+    let footnoteCount = 0;
+
+    for (const turn of groupIntoTurns(paragraphs)) {
+        if (turn.speakerId !== null) {
+            const timeSpan = turn.start !== undefined && turn.end !== undefined
+                ? ` (${formatDuration(turn.start)}–${formatDuration(turn.end)})`
+                : '';
+            content.push(new Paragraph({ text: formatSpeakerName(turn.speakerId) + timeSpan, heading: HeadingLevel.HEADING_1 }));
+        }
+
+        for (const { paragraph } of turn.paragraphs) {
+            const references = paragraph.caveats.map(caveat => {
+                footnotes[++footnoteCount] = { children: [new Paragraph({ children: convertText(caveat, paragraph.verbatim) })] };
+                return new FootnoteReferenceRun(footnoteCount);
+            });
+            content.push(new Paragraph({ children: [...convertText(paragraph.text, paragraph.verbatim), ...references] }));
+        }
+    }
+
+    const document = new Document({
+        title,
+        description: `Transcription of ${sourceFilename}`,
+        footnotes,
+        sections: [{ children: content }],
+    });
+    return Packer.toBuffer(document);
+}
@@ -0,0 +1,189 @@
+import logger from '@/utils/logger';
+import type { TranscriptionResult } from '@/lib/transcription/types';
+import { getJobDirectory, JobContext, JobResult } from '@/lib/jobs';
+import { saveArtifact, storeTranscription } from '@/lib/artifacts';
+import { segmentTranscription } from './segmentation';
+import { processParagraphs, ParagraphFailure, ParagraphProcessingOptions } from './paragraphs';
+import { generateLatexDocument } from './latex';
+import { generateMarkdownDocument } from './markdown';
+import { generateDocxDocument } from './docx';
+import { buildTranscriptDocument, DocumentMetadata, TranscriptDocument } from './document';
+import { compileLatexDocument, getCompileOptions, CompiledDocument, CompileError } from './compile';
+import { createParagraphCheckpoint, saveProcessingInput, ProcessingInput } from './checkpoint';
+import { getDefaultTemplate, getTemplate } from './templates';
+
+export { segmentTranscription } from './segmentation';
+export type { TranscriptParagraph } from './segmentation';
+export { processParagraphs } from './paragraphs';
+export type { ParagraphProcessingOptions, ParagraphFailure, ProcessedParagraphs } from './paragraphs';
+export { escapeLatex, findParagraphAtLine, generateLatexDocument } from './latex';
+export { generateMarkdownDocument } from './markdown';
+export { generateDocxDocument } from './docx';
+export { buildTranscriptDocument, formatSpeakerName, groupIntoTurns, readDocumentMetadata } from './document';
+export type { DocumentMetadata, DocumentParagraph, DocumentTurn, TranscriptDocument } from './document';
+export { listTemplates, getTemplate, DEFAULT_TEMPLATE_ID } from './templates';
+export type { DocumentTemplate } from './templates';
+export { getLanguageDisplayName } from './languages';
+export { compileLatexDocument, getCompileOptions, parseCompileLog, texEngines } from './compile';
+export type { CompiledDocument, CompileError, CompileOptions, TexEngine } from './compile';
+export { createParagraphCheckpoint, saveProcessingInput, loadProcessingInput } from './checkpoint';
+export type { ParagraphCheckpoint, ProcessedParagraph, ProcessingInput } from './checkpoint';
+export { createResponseCache, clearResponseCache, getCacheKey, isCacheMode, cacheModes } from './cache';
+export type { CacheMode, ResponseCache } from './cache';
+
+export type ProcessingStage = 'processing' | 'compilation';
+
+// Share of a processing job's progress taken by each stage
+export const PROCESSING_STAGES: Record<ProcessingStage, number> = {
+    processing: 0.95,
+    compilation: 0.05,
+};
+
+export interface ProcessingOptions extends ParagraphProcessingOptions {
+    onProgress?: (stage: ProcessingStage, progress: number) => void;
+    template?: string; // ID of the document template, the default one when not set
+    metadata?: DocumentMetadata;
+}
+
+// The compiled documents and the structured document they come from,
+// along with the paragraphs the LLM provider couldn't process
+export interface ProcessedDocuments extends CompiledDocument {
+    document: TranscriptDocument;
+    paragraphFailures: ParagraphFailure[];
+}
+
+// Turn a transcription into the LaTeX and PDF documents: segment it into paragraphs,
+// clean them up with the LLM provider, then generate and compile the LaTeX document
+export async function processTranscriptionToDocuments(
+    transcriptionData: TranscriptionResult,
+    sourceFilename: string,
+    language: string,
+    { onProgress = () => { }, template, metadata, ...paragraphOptions }: ProcessingOptions = {}
+): Promise<ProcessedDocuments> {
+    // Segment the transcription into paragraphs, in the order they were spoken
+    const paragraphs = segmentTranscription(transcriptionData);
+
+    // Process paragraphs through the LLM provider with progress updates
+    const processed = await processParagraphs(
+        paragraphs.map(paragraph => paragraph.text),
+        progress => onProgress('processing', progress),
+        language,
+        paragraphOptions
+    );
+
+    // Generate LaTeX document from the structured document
+    const document = buildTranscriptDocument(paragraphs, processed, sourceFilename, language, metadata);
+
+    onProgress('compilation', 0);
+    const compiled = await compileWithFallbacks(document, template, paragraphOptions.signal);
+    onProgress('compilation', 100);
+
+    return { ...compiled, document, paragraphFailures: processed.failures };
+}
+
+// How many times the compilation is tried again after writing the paragraphs that broke it as plain text
+const MAX_COMPILE_RETRIES = 3;
+
+// Compile the LaTeX document of a structured document. When the compilation fails because of some paragraphs,
+// write them as plain text with a caveat saying why, and try again. The errors and logs of every attempt are returned.
+async function compileWithFallbacks(document: TranscriptDocument, templateId?: string, signal?: AbortSignal): Promise<CompiledDocument> {
+    const compileOptions = getCompileOptions();
+
+    // The template may have been removed since the job was started
+    const template = (templateId && await getTemplate(templateId)) || getDefaultTemplate();
+    if (templateId && template.id !== templateId) {
+        logger.warn(`Template "${templateId}" not found, using ${template.id} instead`);
+    }
+
+    const compileErrors: CompileError[] = [];
+    const logs: string[] = [];
+
+    for (let attempt = 0; ; attempt++) {
+        signal?.throwIfAborted();
+        const latexContent = generateLatexDocument(document, compileOptions.engine, template);
+        const compiled = await compileLatexDocument(latexContent, document.sourceFilename, signal, compileOptions);
+        compileErrors.push(...compiled.compileErrors);
+        logs.push(`=== Attempt ${attempt + 1} (${compileOptions.engine}) ===\n${compiled.log.trim()}\n`);
+
+        // Paragraphs that broke the compilation and are still written as LaTeX
+        const brokenParagraphs = [...new Set(compiled.compileErrors.map(error => error.paragraph))]
+            .filter((index): index is number => index !== undefined && !document.paragraphs[index]?.verbatim);
+
+        if (compiled.pdfContent || brokenParagraphs.length === 0 || attempt >= MAX_COMPILE_RETRIES) {
+            return { ...compiled, compileErrors, log: logs.join('\n') };
+        }
+
+        brokenParagraphs.forEach(index => {
+            const paragraph = document.paragraphs[index];
+            const messages = compiled.compileErrors.filter(error => error.paragraph === index).map(error => error.message);
+            logger.warn(`Paragraph ${index + 1} broke the compilation, writing it as plain text: ${messages.join('; ')}`);
+
+            paragraph.verbatim = true;
+            paragraph.caveats = [
+                ...paragraph.caveats,
+                `This paragraph is shown as plain text because LaTeX couldn't compile it: ${messages.join('; ')}.`,
+            ];
+        });
+    }
+}
+
+// Run a processing job, saving its input and checkpointing each paragraph in the job's directory,
+// so that a failed or interrupted job can be resumed where it stopped
+export async function runProcessingJob(input: ProcessingInput, context: JobContext): Promise<JobResult> {
+    const { job, setStageProgress, signal } = context;
+    const directory = getJobDirectory(job.id);
+    await saveProcessingInput(directory, input);
+
+    // Keep the transcription along with the documents, unless the job made it itself
+    if (!job.transcription) {
+        await storeTranscription(context, input.transcription, `${input.sourceFilename.replace(/\.[^/.]+$/, '')}.json`);
+    }
+
+    const compiled = await processTranscriptionToDocuments(input.transcription, input.sourceFilename, input.language, {
+        onProgress: setStageProgress,
+        signal,
+        checkpoint: createParagraphCheckpoint(directory),
+        cacheMode: input.cacheMode,
+        provider: input.llmProvider,
+        template: input.template,
+        metadata: input.metadata,
+    });
+
+    return saveJobArtifacts(job.id, compiled);
+}
+
+// Store the documents of a processing job in its artifact directory, and build the job's result
+// with the URLs to download them
+export async function saveJobArtifacts(jobId: string, compiled: ProcessedDocuments): Promise<JobResult> {
+    const { latexFilename, pdfFilename, paragraphFailures, compileErrors } = compiled;
+
+    // The structured document, its Markdown and Word exports and the compilation log are named like the LaTeX document
+    const documentFilename = latexFilename.replace(/\.tex$/, '.json');
+    const markdownFilename = latexFilename.replace(/\.tex$/, '.md');
+    const docxFilename = latexFilename.replace(/\.tex$/, '.docx');
+    const logFilename = latexFilename.replace(/\.tex$/, '.log');
+
+    const result: JobResult = {
+        latexFilename,
+        latexUrl: await saveArtifact(jobId, latexFilename, compiled.latexContent),
+        pdfAvailable: false,
+        documentFilename,
+        documentUrl: await saveArtifact(jobId, documentFilename, JSON.stringify(compiled.document, null, 2)),
+        markdownFilename,
+        markdownUrl: await saveArtifact(jobId, markdownFilename, generateMarkdownDocument(compiled.document)),
+        docxFilename,
+        docxUrl: await saveArtifact(jobId, docxFilename, await generateDocxDocument(compiled.document)),
+        logFilename,
+        logUrl: await saveArtifact(jobId, logFilename, compiled.log),
+        compileErrors,
+        paragraphFailures,
+    };
+
+    if (compiled.pdfContent) {
+        result.pdfAvailable = true;
+        result.pdfFilename = pdfFilename;
+        result.pdfUrl = await saveArtifact(jobId, pdfFilename, compiled.pdfContent);
+    }
+
+    return result;
+}
@@ -0,0 +1,200 @@
+// Get language display name
+export function getLanguageDisplayName(languageCode: string): string {
+    const languageMap: Record<string, string> = {
+        'afr': 'Afrikaans',
+        'amh': 'Amharic',
+        'ara': 'Arabic',
+        'hye': 'Armenian',
+        'asm': 'Assamese',
+        'ast': 'Asturian',
+        'aze': 'Azerbaijani',
+        'bel': 'Belarusian',
+        'ben': 'Bengali',
+        'bos': 'Bosnian',
+        'bul': 'Bulgarian',
+        'mya': 'Burmese',
+        'yue': 'Cantonese',
+        'cat': 'Catalan',
+        'ceb': 'Cebuano',
+        'nya': 'Chichewa',
+        'hrv': 'Croatian',
+        'ces': 'Czech',
+        'dan': 'Danish',
+        'nld': 'Dutch',
+        'eng': 'English',
+        'est': 'Estonian',
+        'fil': 'Filipino',
+        'fin': 'Finnish',
+        'fra': 'French',
+        'ful': 'Fulah',
+        'glg': 'Galician',
+        'lug': 'Ganda',
+        'kat': 'Georgian',
+        'deu': 'German',
+        'ell': 'Greek',
+        'guj': 'Gujarati',
+        'hau': 'Hausa',
+        'heb': 'Hebrew',
+        'hin': 'Hindi',
+        'hun': 'Hungarian',
+        'isl': 'Icelandic',
+        'ibo': 'Igbo',
+        'ind': 'Indonesian',
+        'gle': 'Irish',
+        'ita': 'Italian',
+        'jpn': 'Japanese',
+        'jav': 'Javanese',
+        'kea': 'Kabuverdianu',
+        'kan': 'Kannada',
+        'kaz': 'Kazakh',
+        'khm': 'Khmer',
+        'kor': 'Korean',
+        'kur': 'Kurdish',
+        'kir': 'Kyrgyz',
+        'lao': 'Lao',
+        'lav': 'Latvian',
+        'lin': 'Lingala',
+        'lit': 'Lithuanian',
+        'luo': 'Luo',
+        'ltz': 'Luxembourgish',
+        'mkd': 'Macedonian',
+        'msa': 'Malay',
+        'mal': 'Malayalam',
+        'mlt': 'Maltese',
+        'cmn': 'Mandarin Chinese',
+        'mri': 'Māori',
+        'mar': 'Marathi',
+        'mon': 'Mongolian',
+        'nep': 'Nepali',
+        'nso': 'Northern Sotho',
+        'nor': 'Norwegian',
+        'oci': 'Occitan',
+        'ori': 'Odia',
+        'pus': 'Pashto',
+        'fas': 'Persian',
+        'pol': 'Polish',
+        'por': 'Portuguese',
+        'pan': 'Punjabi',
+        'ron': 'Romanian',
+        'rus': 'Russian',
+        'srp': 'Serbian',
+        'sna': 'Shona',
+        'snd': 'Sindhi',
+        'slk': 'Slovak',
+        'slv': 'Slovenian',
+        'som': 'Somali',
+        'spa': 'Spanish',
+        'swa': 'Swahili',
+        'swe': 'Swedish',
+        'tam': 'Tamil',
+        'tgk': 'Tajik',
+        'tel': 'Telugu',
+        'tha': 'Thai',
+        'tur': 'Turkish',
+        'ukr': 'Ukrainian',
+        'umb': 'Umbundu',
+        'urd': 'Urdu',
+        'uzb': 'Uzbek',
+        'vie': 'Vietnamese',
+        'cym': 'Welsh',
+        'wol': 'Wolof',
+        'xho': 'Xhosa',
+        'zul': 'Zulu',
+    };
+
+    return languageMap[languageCode] || 'English';
+}
+
+// Writing systems that need their own fonts in the PDF
+export type Script = 'latin' | 'greek' | 'cyrillic' | 'arabic' | 'chinese' | 'japanese' | 'korean' | 'other';
+
+// How a language is typeset: the polyglossia language, for hyphenation and typographic conventions,
+// and the script, for the fonts
+export interface LatexLanguage {
+    polyglossia: string;
+    script: Script;
+}
+
+// Get the LaTeX settings of a language. Languages that polyglossia doesn't know are hyphenated as English,
+// but still get the fonts of their script.
+export function getLatexLanguage(languageCode: string): LatexLanguage {
+    const languageMap: Record<string, LatexLanguage> = {
+        'afr': { polyglossia: 'afrikaans', script: 'latin' },
+        'amh': { polyglossia: 'english', script: 'other' },
+        'ara': { polyglossia: 'arabic', script: 'arabic' },
+        'hye': { polyglossia: 'armenian', script: 'other' },
+        'asm': { polyglossia: 'english', script: 'other' },
+        'ast': { polyglossia: 'asturian', script: 'latin' },
+        'bel': { polyglossia: 'belarusian', script: 'cyrillic' },
+        'ben': { polyglossia: 'bengali', script: 'other' },
+        'bos': { polyglossia: 'bosnian', script: 'latin' },
+        'bul': { polyglossia: 'bulgarian', script: 'cyrillic' },
+        'mya': { polyglossia: 'english', script: 'other' },
+        'yue': { polyglossia: 'english', script: 'chinese' },
+        'cat': { polyglossia: 'catalan', script: 'latin' },
+        'hrv': { polyglossia: 'croatian', script: 'latin' },
+        'ces': { polyglossia: 'czech', script: 'latin' },
+        'dan': { polyglossia: 'danish', script: 'latin' },
+        'nld': { polyglossia: 'dutch', script: 'latin' },
+        'eng': { polyglossia: 'english', script: 'latin' },
+        'est': { polyglossia: 'estonian', script: 'latin' },
+        'fin': { polyglossia: 'finnish', script: 'latin' },
+        'fra': { polyglossia: 'french', script: 'latin' },
+        'glg': { polyglossia: 'galician', script: 'latin' },
+        'kat': { polyglossia: 'georgian', script: 'other' },
+        'deu': { polyglossia: 'german', script: 'latin' },
+        'ell': { polyglossia: 'greek', script: 'greek' },
+        'guj': { polyglossia: 'english', script: 'other' },
+        'heb': { polyglossia: 'hebrew', script: 'other' },
+        'hin': { polyglossia: 'hindi', script: 'other' },
+        'hun': { polyglossia: 'hungarian', script: 'latin' },
+        'isl': { polyglossia: 'icelandic', script: 'latin' },
+        'ind': { polyglossia: 'bahasai', script: 'latin' },
+        'gle': { polyglossia: 'irish', script: 'latin' },
+        'ita': { polyglossia: 'italian', script: 'latin' },
+        'jpn': { polyglossia: 'english', script: 'japanese' },
+        'kan': { polyglossia: 'kannada', script: 'other' },
+        'kaz': { polyglossia: 'kazakh', script: 'cyrillic' },
+        'khm': { polyglossia: 'khmer', script: 'other' },
+        'kor': { polyglossia: 'english', script: 'korean' },
+        'kir': { polyglossia: 'english', script: 'cyrillic' },
+        'lao': { polyglossia: 'lao', script: 'other' },
+        'lav': { polyglossia: 'latvian', script: 'latin' },
+        'lit': { polyglossia: 'lithuanian', script: 'latin' },
+        'mkd': { polyglossia: 'macedonian', script: 'cyrillic' },
+        'msa': { polyglossia: 'bahasam', script: 'latin' },
+        'mal': { polyglossia: 'malayalam', script: 'other' },
+        'mlt': { polyglossia: 'maltese', script: 'latin' },
+        'cmn': { polyglossia: 'english', script: 'chinese' },
+        'mar': { polyglossia: 'marathi', script: 'other' },
+        'mon': { polyglossia: 'mongolian', script: 'cyrillic' },
+        'nep': { polyglossia: 'english', script: 'other' },
+        'nor': { polyglossia: 'norwegian', script: 'latin' },
+        'oci': { polyglossia: 'occitan', script: 'latin' },
+        'ori': { polyglossia: 'english', script: 'other' },
+        'pus': { polyglossia: 'english', script: 'arabic' },
+        'fas': { polyglossia: 'persian', script: 'arabic' },
+        'pol': { polyglossia: 'polish', script: 'latin' },
+        'por': { polyglossia: 'portuguese', script: 'latin' },
+        'pan': { polyglossia: 'punjabi', script: 'other' },
+        'ron': { polyglossia: 'romanian', script: 'latin' },
+        'rus': { polyglossia: 'russian', script: 'cyrillic' },
+        'srp': { polyglossia: 'english', script: 'cyrillic' }, // Serbian transcripts may use either alphabet
+        'snd': { polyglossia: 'english', script: 'arabic' },
+        'slk': { polyglossia: 'slovak', script: 'latin' },
+        'slv': { polyglossia: 'slovenian', script: 'latin' },
+        'spa': { polyglossia: 'spanish', script: 'latin' },
+        'swe': { polyglossia: 'swedish', script: 'latin' },
+        'tam': { polyglossia: 'tamil', script: 'other' },
+        'tgk': { polyglossia: 'english', script: 'cyrillic' },
+        'tel': { polyglossia: 'telugu', script: 'other' },
+        'tha': { polyglossia: 'thai', script: 'other' },
+        'tur': { polyglossia: 'turkish', script: 'latin' },
+        'ukr': { polyglossia: 'ukrainian', script: 'cyrillic' },
+        'urd': { polyglossia: 'urdu', script: 'arabic' },
+        'vie': { polyglossia: 'vietnamese', script: 'latin' },
+        'cym': { polyglossia: 'welsh', script: 'latin' },
+    };
+
+    return languageMap[languageCode] || { polyglossia: 'english', script: 'latin' };
+}
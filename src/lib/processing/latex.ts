@@ -0,0 +1,166 @@
+import { formatDuration } from '@/lib/transcription/summary';
+import { formatSpeakerName, groupIntoTurns, TranscriptDocument } from './document';
+import { getLatexLanguage, Script } from './languages';
+import { splitMathSpans, validateMath } from './math';
+import type { TexEngine } from './compile';
+import { fillTemplate, getDefaultTemplate, DocumentTemplate } from './templates';
+
+// Fonts of the TeX Live bundle that tectonic downloads, loaded by file name so that no system font is needed.
+// CMU Serif looks like Computer Modern and also covers Greek and Cyrillic.
+const CMU_SERIF = '{cmunrm}[Extension=.otf, BoldFont=cmunbx, ItalicFont=cmunti, BoldItalicFont=cmunbi]';
+const SCRIPT_FONTS: Record<Script, string> = {
+    latin: CMU_SERIF,
+    greek: CMU_SERIF,
+    cyrillic: CMU_SERIF,
+    arabic: '{Amiri}[Extension=.ttf, UprightFont=*-Regular, BoldFont=*-Bold, ItalicFont=*-Slanted, BoldItalicFont=*-BoldSlanted, Script=Arabic]',
+    chinese: CMU_SERIF,
+    japanese: CMU_SERIF,
+    korean: CMU_SERIF,
+    other: '{FreeSerif}[Extension=.otf, BoldFont=*Bold, ItalicFont=*Italic, BoldItalicFont=*BoldItalic]',
+};
+const CJK_FONTS: Partial<Record<Script, string>> = {
+    chinese: '{FandolSong-Regular.otf}[BoldFont=FandolSong-Bold.otf]',
+    japanese: '{HaranoAjiMincho-Regular.otf}[BoldFont=HaranoAjiMincho-Bold.otf]',
+    korean: '{batang.ttf}',
+};
+
+// How each special character is written in LaTeX prose
+const LATEX_SPECIALS: Record<string, string> = {
+    '\\': '\\textbackslash{}',
+    '%': '\\%',
+    '$': '\\$',
+    '&': '\\&',
+    '#': '\\#',
+    '_': '\\_',
+    '{': '\\{',
+    '}': '\\}',
+    '~': '\\textasciitilde{}',
+    '^': '\\textasciicircum{}',
+};
+
+// Escape the special characters of prose, keeping the ones the model already escaped
+function escapeProse(text: string): string {
+    return text.replace(/\\[%$&#_{}]|[\\%$&#_{}~^]/g, match => match.length === 2 ? match : LATEX_SPECIALS[match]);
+}
+
+// Escape special LaTeX characters in prose, leaving math ($…$, $$…$$, \(…\) and \[…\]) as it is.
+// Unbalanced math delimiters, and formulas that can't be compiled, are escaped as literal characters.
+export function escapeLatex(text: string): string {
+    return splitMathSpans(text)
+        .map(span => span.math && validateMath(span.text) === null ? span.text : escapeProse(span.text))
+        .join('');
+}
+
+// Comment written before each paragraph, followed by its number
+const PARAGRAPH_MARKER = '% Paragraph ';
+
+// Comment written after the last paragraph
+const PARAGRAPHS_END_MARKER = '% End of paragraphs';
+
+// Find the index of the paragraph a line of the LaTeX document belongs to, or null if it's outside the paragraphs
+export function findParagraphAtLine(latexContent: string, line: number): number | null {
+    const lines = latexContent.split('\n');
+
+    // Go back to the closest paragraph marker, unless the line is past the paragraphs
+    for (let i = Math.min(line, lines.length) - 1; i >= 0; i--) {
+        if (lines[i] === PARAGRAPHS_END_MARKER) {
+            return null;
+        }
+        if (lines[i].startsWith(PARAGRAPH_MARKER)) {
+            return Number(lines[i].slice(PARAGRAPH_MARKER.length)) - 1;
+        }
+    }
+    return null;
+}
+
+// Heading of a speaker's turn, with the time span of the turn, laid out by the template's \speakerturn
+function formatTurnHeading(speakerId: string, start?: number, end?: number): string {
+    // Speaker IDs come from the transcription, e.g. unknown_speaker, so they are escaped like prose
+    const speaker = escapeProse(formatSpeakerName(speakerId));
+    const timeSpan = start !== undefined && end !== undefined ? `${formatDuration(start)}--${formatDuration(end)}` : '';
+
+    return `\\speakerturn{${speaker}}{${timeSpan}}`;
+}
+
+// Turn headings of templates that don't redefine them
+const DEFAULT_SPEAKER_TURN = '\\newcommand{\\speakerturn}[2]{\\subsection*{#1 \\hfill {\\normalfont\\small #2}}}';
+
+// Fonts and language settings of the preamble. The fonts can be replaced with system fonts
+// through LATEX_MAIN_FONT and LATEX_CJK_FONT, e.g. for scripts the bundled fonts don't cover.
+function formatLanguageSetup(languageCode: string, engine: TexEngine): string {
+    const { polyglossia, script } = getLatexLanguage(languageCode);
+
+    // pdfLaTeX has no Unicode fonts: it gets Latin Modern and babel, which only cover the Latin script
+    if (engine === 'pdflatex') {
+        // Shorthands are turned off, as the German ones would take over the quotes of csquotes
+        const babel = script !== 'latin' ? 'english' : polyglossia === 'german' ? 'ngerman' : polyglossia;
+        return [
+            '\\usepackage[utf8]{inputenc}',
+            '\\usepackage[T1]{fontenc}',
+            '\\usepackage{lmodern}',
+            `\\usepackage[${babel}, shorthands=off]{babel}`,
+        ].join('\n');
+    }
+
+    const mainFont = process.env.LATEX_MAIN_FONT ? `{${process.env.LATEX_MAIN_FONT}}` : SCRIPT_FONTS[script];
+
+    // Polyglossia adds the script and language features of the default language to the main font
+    const lines = ['\\usepackage{fontspec}', `\\setmainfont${mainFont}`];
+
+    const cjkFont = process.env.LATEX_CJK_FONT ? `{${process.env.LATEX_CJK_FONT}}` : CJK_FONTS[script];
+    if (cjkFont) {
+        lines.push('\\usepackage{xeCJK}', `\\setCJKmainfont${cjkFont}`);
+    }
+
+    lines.push('\\usepackage{polyglossia}', `\\setdefaultlanguage{${polyglossia}}`);
+    return lines.join('\n');
+}
+
+// Generate LaTeX document from the processed paragraphs, in the order they were spoken, with the layout of a template.
+// Consecutive paragraphs of the same speaker make up a turn, under a heading with its time span.
+// The document is meant for XeTeX (which tectonic is based on), so that text in any script is kept as is,
+// unless it's compiled with pdfLaTeX.
+export function generateLatexDocument(
+    { paragraphs, language, metadata }: TranscriptDocument,
+    engine: TexEngine = 'tectonic',
+    template: DocumentTemplate = getDefaultTemplate()
+): string {
+    const content = groupIntoTurns(paragraphs).map(turn => {
+        const formattedParagraphs = turn.paragraphs.map(({ index, paragraph }) => {
+            // Paragraphs that broke the compilation are written as plain text, formulas included
+            const escape = paragraph.verbatim ? escapeProse : escapeLatex;
+
+            // Add a footnote for each caveat of the paragraph, after a comment that tells compile errors where they are
+            return `${PARAGRAPH_MARKER}${index + 1}\n` + escape(paragraph.text) + paragraph.caveats
+                .map(caveat => `\\footnote{${escape(caveat)}}`)
+                .join('');
+        });
+
+        // Paragraphs without a speaker aren't part of any turn
+        return turn.speakerId === null
+            ? formattedParagraphs.join('\n\n')
+            : `${formatTurnHeading(turn.speakerId, turn.start, turn.end)}\n${formattedParagraphs.join('\n\n')}`;
+    });
+
+    // Quotes and the date follow the language set up by polyglossia or babel
+    const preamble = [
+        '\\usepackage{amsmath}',
+        '\\usepackage{amssymb}',
+        formatLanguageSetup(language, engine),
+        '\\usepackage[autostyle]{csquotes}',
+        '\\MakeOuterQuote{"}',
+        DEFAULT_SPEAKER_TURN,
+    ].join('\n');
+
+    const escapeMetadata = (value?: string) => value && escapeProse(value);
+
+    return fillTemplate(template.source, {
+        preamble,
+        content: `${content.join('\n\n')}\n${PARAGRAPHS_END_MARKER}`,
+        title: escapeMetadata(metadata.title) || template.defaultTitle,
+        course: escapeMetadata(metadata.course),
+        lecturer: escapeMetadata(metadata.lecturer),
+        lesson: escapeMetadata(metadata.lessonNumber),
+        date: escapeMetadata(metadata.date) || '\\today',
+    });
+}
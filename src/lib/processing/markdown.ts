@@ -0,0 +1,70 @@
+import { formatDuration } from '@/lib/transcription/summary';
+import { formatSpeakerName, groupIntoTurns, TranscriptDocument } from './document';
+import { splitMathSpans, validateMath } from './math';
+
+// Escape the characters that Markdown would take for formatting, links or HTML, along with dollar signs
+// so that prices and unbalanced delimiters aren't taken for math
+function escapeMarkdownProse(text: string): string {
+    return text
+        .replace(/\\[\\`*_{}[\]()#+\-.!$%&~^<>|]|[`*_[\]<>|$~]/g, match => match.length === 2 ? match : `\\${match}`)
+        .replace(/^(\s*)([#+-])/, '$1\\$2') // Headings and bullet lists
+        .replace(/^(\s*\d+)\.(\s)/, '$1\\.$2'); // Numbered lists
+}
+
+// Escape prose for Markdown, leaving math as it is for renderers that support it (Pandoc, Obsidian, GitHub...).
+// Formulas that can't be compiled are escaped as plain text, like in the LaTeX document.
+function escapeMarkdown(text: string): string {
+    return splitMathSpans(text)
+        .map(span => span.math && validateMath(span.text) === null ? span.text : escapeMarkdownProse(span.text))
+        .join('');
+}
+
+// Quote a value of the front matter, as JSON strings are valid YAML strings
+const yamlString = (value: string) => JSON.stringify(value);
+
+// Generate a Markdown document from the processed paragraphs, in the order they were spoken:
+// YAML front matter with the source and metadata of the document, a heading for each speaker's turn,
+// and the caveats as footnotes
+export function generateMarkdownDocument({ sourceFilename, language, createdAt, metadata, paragraphs }: TranscriptDocument): string {
+    const frontMatter = Object.entries({
+        title: metadata.title || metadata.course || 'Transcription',
+        course: metadata.course,
+        lecturer: metadata.lecturer,
+        lesson: metadata.lessonNumber,
+        date: metadata.date,
+        source: sourceFilename,
+        language,
+        created: createdAt,
+    })
+        .filter((entry): entry is [string, string] => !!entry[1])
+        .map(([key, value]) => `${key}: ${yamlString(value)}`);
+
+    const footnotes: string[] = [];
+    const content = groupIntoTurns(paragraphs).map(turn => {
+        const formattedParagraphs = turn.paragraphs.map(({ paragraph }) => {
+            // Paragraphs that broke the LaTeX compilation are written as plain text there, so they are here too
+            const escape = paragraph.verbatim ? escapeMarkdownProse : escapeMarkdown;
+
+            const references = paragraph.caveats.map(caveat => {
+                footnotes.push(`[^${footnotes.length + 1}]: ${escape(caveat)}`);
+                return `[^${footnotes.length}]`;
+            });
+            return escape(paragraph.text) + references.join('');
+        });
+
+        if (turn.speakerId === null) {
+            return formattedParagraphs.join('\n\n');
+        }
+
+        const timeSpan = turn.start !== undefined && turn.end !== undefined
+            ? ` (${formatDuration(turn.start)}–${formatDuration(turn.end)})`
+            : '';
+        return `## ${formatSpeakerName(turn.speakerId)}${timeSpan}\n\n${formattedParagraphs.join('\n\n')}`;
+    });
+
+    return [
+        `---\n${frontMatter.join('\n')}\n---`,
+        ...content,
+        ...(footnotes.length > 0 ? [footnotes.join('\n')] : []),
+    ].join('\n\n') + '\n';
+}
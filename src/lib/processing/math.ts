@@ -0,0 +1,210 @@
+// A part of a paragraph: either prose, or a math expression along with its delimiters
+export interface TextSpan {
+    math: boolean;
+    text: string;
+}
+
+// Find where the inline math opened at `start` by a single `$` ends, following Pandoc's rules so that
+// prices aren't taken for math: the opening `$` must be followed by a non-space character, and the
+// closing one preceded by a non-space character and not followed by a digit
+function findInlineMathEnd(text: string, start: number): number {
+    if (start + 1 >= text.length || /\s/.test(text[start + 1])) {
+        return -1;
+    }
+
+    for (let i = start + 1; i < text.length; i++) {
+        if (text[i] === '\\') {
+            i++; // Skip escaped characters, e.g. \$
+        } else if (text[i] === '$') {
+            return i > start + 1 && !/\s/.test(text[i - 1]) && !/\d/.test(text[i + 1] ?? '') ? i : -1;
+        }
+    }
+
+    return -1;
+}
+
+// Split a paragraph into prose and math, recognizing $…$, $$…$$, \(…\) and \[…\].
+// A delimiter that is never closed is left in the prose, to be escaped as a literal character.
+export function splitMathSpans(text: string): TextSpan[] {
+    const spans: TextSpan[] = [];
+    let prose = '';
+
+    const pushMath = (math: string) => {
+        if (prose) {
+            spans.push({ math: false, text: prose });
+            prose = '';
+        }
+        spans.push({ math: true, text: math });
+    };
+
+    let i = 0;
+    while (i < text.length) {
+        let end = -1;
+
+        if (text.startsWith('\\(', i) || text.startsWith('\\[', i)) {
+            const closing = text[i + 1] === '(' ? '\\)' : '\\]';
+            const closingIndex = text.indexOf(closing, i + 2);
+            end = closingIndex === -1 ? -1 : closingIndex + 2;
+        } else if (text.startsWith('$$', i)) {
+            const closingIndex = text.indexOf('$$', i + 2);
+            end = closingIndex === -1 ? -1 : closingIndex + 2;
+        } else if (text[i] === '$') {
+            const closingIndex = findInlineMathEnd(text, i);
+            end = closingIndex === -1 ? -1 : closingIndex + 1;
+        }
+
+        if (end !== -1) {
+            pushMath(text.slice(i, end));
+            i = end;
+        } else if (text[i] === '\\') {
+            // Keep a backslash with the character it escapes, so that \$ never opens math
+            prose += text.slice(i, i + 2);
+            i += 2;
+        } else {
+            prose += text[i];
+            i++;
+        }
+    }
+
+    if (prose) {
+        spans.push({ math: false, text: prose });
+    }
+
+    return spans;
+}
+
+// A math expression that can't be compiled, and why
+export interface MathProblem {
+    span: string; // The expression along with its delimiters
+    problem: string;
+}
+
+// Commands available in math mode with the packages of the LaTeX template (amsmath and amssymb)
+const KNOWN_MACROS = new Set(`
+    alpha beta gamma delta epsilon varepsilon zeta eta theta vartheta iota kappa varkappa lambda mu nu xi pi varpi
+    rho varrho sigma varsigma tau upsilon phi varphi chi psi omega digamma
+    Gamma Delta Theta Lambda Xi Pi Sigma Upsilon Phi Psi Omega varGamma varDelta varTheta varLambda varXi varPi
+    varSigma varUpsilon varPhi varPsi varOmega
+    frac dfrac tfrac cfrac sqrt binom dbinom tbinom genfrac over choose atop
+    text textrm textit textbf textsf texttt textnormal mathrm mathit mathbf mathsf mathtt mathcal mathbb mathfrak
+    mathscr operatorname boldsymbol pmb mbox
+    sum prod coprod int iint iiint iiiint oint idotsint bigcup bigcap bigsqcup bigoplus bigotimes bigodot biguplus
+    bigvee bigwedge lim limsup liminf sup inf max min arg det exp log ln lg sin cos tan cot sec csc arcsin arccos
+    arctan sinh cosh tanh coth deg dim ker hom gcd Pr mod bmod pmod pod injlim projlim varliminf varlimsup
+    leq le geq ge leqslant geqslant neq ne equiv approx approxeq sim simeq cong propto ll gg lll ggg lesssim gtrsim
+    subset subseteq subsetneq supset supseteq supsetneq sqsubset sqsubseteq sqsupset sqsupseteq in notin ni perp
+    parallel nparallel mid nmid prec succ preceq succeq models vdash dashv vDash Vdash asymp doteq bowtie smile frown
+    nless ngtr nleq ngeq nsim ncong nsubseteq nsupseteq triangleq coloneqq eqqcolon lessgtr gtrless
+    pm mp times div cdot ast star circ bullet oplus ominus otimes oslash odot cup cap sqcup sqcap uplus setminus
+    smallsetminus wedge vee land lor lnot neg amalg dagger ddagger wr diamond bigtriangleup bigtriangledown
+    triangleleft triangleright ltimes rtimes centerdot dotplus intercal
+    to gets rightarrow leftarrow leftrightarrow Rightarrow Leftarrow Leftrightarrow longrightarrow longleftarrow
+    Longrightarrow Longleftarrow longleftrightarrow Longleftrightarrow iff implies impliedby mapsto longmapsto
+    uparrow downarrow updownarrow Uparrow Downarrow Updownarrow nearrow searrow swarrow nwarrow hookrightarrow
+    hookleftarrow rightleftharpoons leftrightharpoons rightharpoonup rightharpoondown leftharpoonup leftharpoondown
+    xrightarrow xleftarrow twoheadrightarrow rightsquigarrow leadsto nrightarrow nleftarrow nRightarrow circlearrowleft
+    circlearrowright curvearrowleft curvearrowright
+    infty partial nabla forall exists nexists emptyset varnothing aleph beth hbar hslash ell wp Re Im imath jmath
+    angle measuredangle triangle square blacksquare lozenge Box prime backprime dots ldots cdots vdots ddots dotsc
+    dotsb dotsm dotsi therefore because top bot flat natural sharp clubsuit diamondsuit heartsuit spadesuit surd
+    complement mho eth checkmark maltese
+    hat widehat bar overline underline vec overrightarrow overleftarrow overleftrightarrow tilde widetilde dot ddot
+    dddot acute grave check breve mathring overbrace underbrace
+    left right middle big Big bigg Bigg bigl bigr Bigl Bigr biggl biggr Biggl Biggr bigm langle rangle lceil rceil
+    lfloor rfloor lvert rvert lVert rVert vert Vert backslash lbrace rbrace lbrack rbrack ulcorner urcorner llcorner
+    lrcorner
+    quad qquad hspace mspace phantom hphantom vphantom smash displaystyle textstyle scriptstyle scriptscriptstyle
+    limits nolimits not colon mathop mathbin mathrel mathord mathpunct mathopen mathclose
+    begin end stackrel overset underset substack boxed hline cline
+`.trim().split(/\s+/));
+
+// Environments available inside math mode
+const KNOWN_ENVIRONMENTS = new Set([
+    'matrix', 'pmatrix', 'bmatrix', 'Bmatrix', 'vmatrix', 'Vmatrix', 'smallmatrix', 'cases', 'aligned', 'alignedat',
+    'gathered', 'array', 'subarray',
+]);
+
+// Remove the delimiters of a math expression
+export function getMathBody(span: string): string {
+    const delimiterLength = span.startsWith('$$') || span.startsWith('\\') ? 2 : 1;
+    return span.slice(delimiterLength, -delimiterLength);
+}
+
+// Find what's wrong with a math expression, or null if it can be compiled
+export function validateMath(span: string): string | null {
+    const body = getMathBody(span);
+    if (body.trim().length === 0) {
+        return 'the formula is empty';
+    }
+
+    const environments: string[] = [];
+    let braceDepth = 0;
+    let leftCount = 0;
+
+    // Go through commands, with their name, and single characters
+    for (const match of body.matchAll(/\\[a-zA-Z]+|\\.|[\s\S]/g)) {
+        const token = match[0];
+
+        if (token === '$' || ['\\(', '\\)', '\\[', '\\]'].includes(token)) {
+            return 'it contains math delimiters inside math';
+        } else if (token === '{') {
+            braceDepth++;
+        } else if (token === '}') {
+            if (--braceDepth < 0) {
+                return 'a closing brace has no opening brace';
+            }
+        } else if (/^\\[a-zA-Z]+$/.test(token)) {
+            const name = token.slice(1);
+            if (!KNOWN_MACROS.has(name)) {
+                return `the command ${token} is unknown`;
+            }
+
+            if (name === 'left') leftCount++;
+            if (name === 'right' && --leftCount < 0) {
+                return '\\right has no matching \\left';
+            }
+
+            if (name === 'begin' || name === 'end') {
+                const environment = body.slice(match.index + token.length).match(/^\s*\{([a-zA-Z*]+)\}/)?.[1];
+                if (!environment) {
+                    return `${token} has no environment name`;
+                }
+                if (!KNOWN_ENVIRONMENTS.has(environment)) {
+                    return `the environment ${environment} can't be used inside a formula`;
+                }
+                if (name === 'begin') {
+                    environments.push(environment);
+                } else if (environments.pop() !== environment) {
+                    return `\\end{${environment}} doesn't match its \\begin`;
+                }
+            }
+        }
+    }
+
+    if (braceDepth > 0) {
+        return 'an opening brace is never closed';
+    }
+    if (leftCount > 0) {
+        return '\\left has no matching \\right';
+    }
+    if (environments.length > 0) {
+        return `\\begin{${environments[environments.length - 1]}} is never ended`;
+    }
+
+    return null;
+}
+
+// Find the math expressions of a paragraph that can't be compiled
+export function findInvalidMath(text: string): MathProblem[] {
+    return splitMathSpans(text)
+        .filter(span => span.math)
+        .map(span => ({ span: span.text, problem: validateMath(span.text) }))
+        .filter((result): result is MathProblem => result.problem !== null);
+}
+
+// Turn the math expressions of a paragraph that can't be compiled into plain text, without their delimiters
+export function replaceInvalidMath(text: string): string {
+    return splitMathSpans(text)
+        .map(span => span.math && validateMath(span.text) !== null ? getMathBody(span.text).trim() : span.text)
+        .join('');
+}
@@ -0,0 +1,359 @@
+import {
+    MathAngledBrackets,
+    MathComponent,
+    MathCurlyBrackets,
+    MathFraction,
+    MathIntegral,
+    MathRadical,
+    MathRoundBrackets,
+    MathRun,
+    MathRunScript,
+    MathRunStyle,
+    MathSquareBrackets,
+    MathSubScript,
+    MathSubSuperScript,
+    MathSum,
+    MathSuperScript,
+} from 'docx';
+import { getMathBody } from './math';
+
+// Characters of the commands that stand for a symbol
+const SYMBOLS: Record<string, string> = {
+    alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', epsilon: 'ϵ', varepsilon: 'ε', zeta: 'ζ', eta: 'η', theta: 'θ',
+    vartheta: 'ϑ', iota: 'ι', kappa: 'κ', varkappa: 'ϰ', lambda: 'λ', mu: 'μ', nu: 'ν', xi: 'ξ', pi: 'π', varpi: 'ϖ',
+    rho: 'ρ', varrho: 'ϱ', sigma: 'σ', varsigma: 'ς', tau: 'τ', upsilon: 'υ', phi: 'ϕ', varphi: 'φ', chi: 'χ',
+    psi: 'ψ', omega: 'ω', digamma: 'ϝ',
+    Gamma: 'Γ', Delta: 'Δ', Theta: 'Θ', Lambda: 'Λ', Xi: 'Ξ', Pi: 'Π', Sigma: 'Σ', Upsilon: 'Υ', Phi: 'Φ', Psi: 'Ψ',
+    Omega: 'Ω',
+    leq: '≤', le: '≤', geq: '≥', ge: '≥', leqslant: '⩽', geqslant: '⩾', neq: '≠', ne: '≠', equiv: '≡', approx: '≈',
+    approxeq: '≊', sim: '∼', simeq: '≃', cong: '≅', propto: '∝', ll: '≪', gg: '≫', lll: '⋘', ggg: '⋙', lesssim: '≲',
+    gtrsim: '≳', subset: '⊂', subseteq: '⊆', subsetneq: '⊊', supset: '⊃', supseteq: '⊇', supsetneq: '⊋',
+    sqsubset: '⊏', sqsubseteq: '⊑', sqsupset: '⊐', sqsupseteq: '⊒', in: '∈', notin: '∉', ni: '∋', perp: '⊥',
+    parallel: '∥', nparallel: '∦', mid: '∣', nmid: '∤', prec: '≺', succ: '≻', preceq: '⪯', succeq: '⪰', models: '⊨',
+    vdash: '⊢', dashv: '⊣', vDash: '⊨', Vdash: '⊩', asymp: '≍', doteq: '≐', bowtie: '⋈', smile: '⌣', frown: '⌢',
+    nless: '≮', ngtr: '≯', nleq: '≰', ngeq: '≱', nsim: '≁', ncong: '≇', nsubseteq: '⊈', nsupseteq: '⊉',
+    triangleq: '≜', coloneqq: '≔', eqqcolon: '≕', lessgtr: '≶', gtrless: '≷',
+    pm: '±', mp: '∓', times: '×', div: '÷', cdot: '⋅', ast: '∗', star: '⋆', circ: '∘', bullet: '∙', oplus: '⊕',
+    ominus: '⊖', otimes: '⊗', oslash: '⊘', odot: '⊙', cup: '∪', cap: '∩', sqcup: '⊔', sqcap: '⊓', uplus: '⊎',
+    setminus: '∖', smallsetminus: '∖', wedge: '∧', vee: '∨', land: '∧', lor: '∨', lnot: '¬', neg: '¬', amalg: '⨿',
+    dagger: '†', ddagger: '‡', wr: '≀', diamond: '⋄', bigtriangleup: '△', bigtriangledown: '▽',
+    triangleleft: '◁', triangleright: '▷', ltimes: '⋉', rtimes: '⋊', centerdot: '⋅', dotplus: '∔', intercal: '⊺',
+    to: '→', gets: '←', rightarrow: '→', leftarrow: '←', leftrightarrow: '↔', Rightarrow: '⇒', Leftarrow: '⇐',
+    Leftrightarrow: '⇔', longrightarrow: '⟶', longleftarrow: '⟵', Longrightarrow: '⟹', Longleftarrow: '⟸',
+    longleftrightarrow: '⟷', Longleftrightarrow: '⟺', iff: '⟺', implies: '⟹', impliedby: '⟸', mapsto: '↦',
+    longmapsto: '⟼', uparrow: '↑', downarrow: '↓', updownarrow: '↕', Uparrow: '⇑', Downarrow: '⇓', Updownarrow: '⇕',
+    nearrow: '↗', searrow: '↘', swarrow: '↙', nwarrow: '↖', hookrightarrow: '↪', hookleftarrow: '↩',
+    rightleftharpoons: '⇌', leftrightharpoons: '⇋', rightharpoonup: '⇀', rightharpoondown: '⇁', leftharpoonup: '↼',
+    leftharpoondown: '↽', twoheadrightarrow: '↠', rightsquigarrow: '⇝', leadsto: '⇝', nrightarrow: '↛',
+    nleftarrow: '↚', nRightarrow: '⇏', circlearrowleft: '↺', circlearrowright: '↻', curvearrowleft: '↶',
+    curvearrowright: '↷', xrightarrow: '→', xleftarrow: '←',
+    infty: '∞', partial: '∂', nabla: '∇', forall: '∀', exists: '∃', nexists: '∄', emptyset: '∅', varnothing: '∅',
+    aleph: 'ℵ', beth: 'ℶ', hbar: 'ℏ', hslash: 'ℏ', ell: 'ℓ', wp: '℘', Re: 'ℜ', Im: 'ℑ', imath: 'ı', jmath: 'ȷ',
+    angle: '∠', measuredangle: '∡', triangle: '△', square: '□', blacksquare: '■', lozenge: '◊', Box: '□',
+    prime: '′', backprime: '‵', dots: '…', ldots: '…', cdots: '⋯', vdots: '⋮', ddots: '⋱', dotsc: '…', dotsb: '⋯',
+    dotsm: '⋯', dotsi: '⋯', therefore: '∴', because: '∵', top: '⊤', bot: '⊥', flat: '♭', natural: '♮', sharp: '♯',
+    clubsuit: '♣', diamondsuit: '♢', heartsuit: '♡', spadesuit: '♠', surd: '√', complement: '∁', mho: '℧', eth: 'ð',
+    checkmark: '✓', maltese: '✠',
+    langle: '⟨', rangle: '⟩', lceil: '⌈', rceil: '⌉', lfloor: '⌊', rfloor: '⌋', lvert: '|', rvert: '|', lVert: '‖',
+    rVert: '‖', vert: '|', Vert: '‖', backslash: '\\', lbrace: '{', rbrace: '}', lbrack: '[', rbrack: ']',
+    ulcorner: '⌜', urcorner: '⌝', llcorner: '⌞', lrcorner: '⌟', colon: ':',
+    quad: ' ', qquad: '  ',
+    '{': '{', '}': '}', '|': '‖', ',': ' ', ':': ' ', ';': ' ', ' ': ' ', '!': '',
+    '%': '%', '$': '$', '&': '&', '#': '#', '_': '_', '\\': '; ',
+};
+
+// Large operators, drawn with their limits above and below when they have some
+const LARGE_OPERATORS: Record<string, string> = {
+    prod: '∏', coprod: '∐', iint: '∬', iiint: '∭', iiiint: '⨌', oint: '∮', idotsint: '∫⋯∫', bigcup: '⋃',
+    bigcap: '⋂', bigsqcup: '⨆', bigoplus: '⨁', bigotimes: '⨂', bigodot: '⨀', biguplus: '⨄', bigvee: '⋁',
+    bigwedge: '⋀',
+};
+
+// Named functions, written upright
+const FUNCTIONS = new Set(`
+    lim limsup liminf sup inf max min arg det exp log ln lg sin cos tan cot sec csc arcsin arccos arctan sinh cosh
+    tanh coth deg dim ker hom gcd Pr mod bmod injlim projlim
+`.trim().split(/\s+/));
+
+// Combining characters of the accents
+const ACCENTS: Record<string, string> = {
+    hat: '\u0302', widehat: '\u0302', bar: '\u0304', overline: '\u0305', underline: '\u0332', vec: '\u20d7',
+    overrightarrow: '\u20d7', overleftarrow: '\u20d6', overleftrightarrow: '\u20e1', tilde: '\u0303',
+    widetilde: '\u0303', dot: '\u0307', ddot: '\u0308', dddot: '\u20db', acute: '\u0301', grave: '\u0300',
+    check: '\u030c', breve: '\u0306', mathring: '\u030a',
+};
+
+// Alphabets and styles of the commands that change how letters are drawn
+const ALPHABETS: Record<string, { script?: MathRunScript; style?: MathRunStyle }> = {
+    mathbb: { script: 'doubleStruck' },
+    mathcal: { script: 'script' },
+    mathscr: { script: 'script' },
+    mathfrak: { script: 'fraktur' },
+    mathsf: { script: 'sansSerif' },
+    mathtt: { script: 'monospace' },
+    mathrm: { style: 'plain' },
+    mathit: { style: 'italic' },
+    mathbf: { style: 'bold' },
+    boldsymbol: { style: 'boldItalic' },
+    pmb: { style: 'boldItalic' },
+};
+
+// Commands whose argument is text rather than math
+const TEXT_COMMANDS = new Set(['text', 'textrm', 'textit', 'textbf', 'textsf', 'texttt', 'textnormal', 'mbox']);
+
+// Commands that only change sizes or spacing, left out of the equation along with their argument if they have one
+const IGNORED_COMMANDS = new Set([
+    'big', 'Big', 'bigg', 'Bigg', 'bigl', 'bigr', 'Bigl', 'Bigr', 'biggl', 'biggr', 'Biggl', 'Biggr', 'bigm',
+    'displaystyle', 'textstyle', 'scriptstyle', 'scriptscriptstyle', 'limits', 'nolimits', 'hline',
+]);
+const IGNORED_WITH_ARGUMENT = new Set(['phantom', 'hphantom', 'vphantom', 'cline']);
+
+// The brackets Word can stretch around their content, by their opening and closing delimiters
+const BRACKETS: Record<string, (children: MathComponent[]) => MathComponent> = {
+    '()': children => new MathRoundBrackets({ children }),
+    '[]': children => new MathSquareBrackets({ children }),
+    '{}': children => new MathCurlyBrackets({ children }),
+    '⟨⟩': children => new MathAngledBrackets({ children }),
+};
+
+// Convert a math expression that can be compiled, along with its delimiters, into Word equation components.
+// Constructs Word can't represent, such as matrices, are written out on one line so that they stay readable.
+export function convertMathToOmml(span: string): MathComponent[] {
+    return convertTokens(tokenize(getMathBody(span)));
+}
+
+// Commands along with their name, and single characters
+function tokenize(body: string): string[] {
+    return body.match(/\\[a-zA-Z]+|\\.|[\s\S]/g) ?? [];
+}
+
+// The text of tokens, as written in \text{…}
+function getText(tokens: string[]): string {
+    return tokens.map(token => token === '~' ? ' ' : /^\\[^a-zA-Z]$/.test(token) ? token[1] : token).join('');
+}
+
+function convertTokens(tokens: string[]): MathComponent[] {
+    let position = 0;
+
+    const skipSpaces = () => {
+        while (position < tokens.length && /^\s$/.test(tokens[position])) position++;
+    };
+
+    const peek = (): string | undefined => {
+        skipSpaces();
+        return tokens[position];
+    };
+
+    const next = (): string | undefined => {
+        skipSpaces();
+        return tokens[position++];
+    };
+
+    // The tokens between an opening delimiter and its matching closing one, which are consumed
+    const readDelimited = (opening: string, closing: string): string[] => {
+        const start = ++position;
+        for (let depth = 1; position < tokens.length; position++) {
+            if (tokens[position] === opening) depth++;
+            if (tokens[position] === closing && --depth === 0) {
+                return tokens.slice(start, position++);
+            }
+        }
+        return tokens.slice(start);
+    };
+
+    // The argument of a command: a group in braces, or a single token
+    const readArgument = (): string[] => {
+        if (peek() === '{') {
+            return readDelimited('{', '}');
+        }
+        const token = next();
+        return token === undefined ? [] : [token];
+    };
+
+    const readOptionalArgument = (): string[] | undefined => peek() === '[' ? readDelimited('[', ']') : undefined;
+
+    // A delimiter after \left, \right or \middle, as a character
+    const readDelimiter = (): string => {
+        const token = next() ?? '';
+        if (token === '.') return '';
+        return token.startsWith('\\') ? SYMBOLS[token.slice(1)] ?? token.slice(1) : token;
+    };
+
+    // Convert everything up to a token, or the end
+    const convertUntil = (stop?: string): MathComponent[] => {
+        const components: MathComponent[] = [];
+        for (let token = peek(); token !== undefined && token !== stop; token = peek()) {
+            components.push(...convertScripted());
+        }
+        return components;
+    };
+
+    // An atom along with its subscript and superscript, if any
+    const convertScripted = (): MathComponent[] => {
+        const { base, operator } = convertAtom();
+
+        let subScript: MathComponent[] | undefined;
+        let superScript: MathComponent[] | undefined;
+        for (let token = peek(); token === '_' || token === '^'; token = peek()) {
+            next();
+            const script = convertTokens(readArgument());
+            if (token === '_') subScript = script;
+            else superScript = script;
+        }
+
+        // Sums and integrals take the atom that follows as their content
+        if (operator) {
+            const children = peek() !== undefined ? convertScripted() : [];
+            return [operator === 'sum'
+                ? new MathSum({ children, subScript, superScript })
+                : new MathIntegral({ children, subScript, superScript })];
+        }
+
+        const children = base.length > 0 ? base : [new MathRun('')];
+        if (subScript && superScript) {
+            return [new MathSubSuperScript({ children, subScript, superScript })];
+        } else if (subScript) {
+            return [new MathSubScript({ children, subScript })];
+        } else if (superScript) {
+            return [new MathSuperScript({ children, superScript })];
+        }
+        return base;
+    };
+
+    const convertAtom = (): { base: MathComponent[]; operator?: 'sum' | 'integral' } => {
+        const token = next()!;
+
+        if (token === '{') {
+            position--;
+            return { base: convertTokens(readDelimited('{', '}')) };
+        } else if (token === '}') {
+            return { base: [] };
+        } else if (token === '~') {
+            return { base: [new MathRun(' ')] };
+        } else if (token === '&') {
+            return { base: [new MathRun(' ')] };
+        } else if (token === "'") {
+            return { base: [new MathRun('′')] };
+        } else if (token === '-') {
+            return { base: [new MathRun('−')] };
+        } else if (!token.startsWith('\\')) {
+            return { base: [new MathRun(token)] };
+        }
+
+        const name = token.slice(1);
+
+        if (name === 'sum' || name === 'int') {
+            return { base: [], operator: name === 'sum' ? 'sum' : 'integral' };
+        } else if (['frac', 'dfrac', 'tfrac', 'cfrac'].includes(name)) {
+            const numerator = convertTokens(readArgument());
+            return { base: [new MathFraction({ numerator, denominator: convertTokens(readArgument()) })] };
+        } else if (['binom', 'dbinom', 'tbinom'].includes(name)) {
+            const numerator = convertTokens(readArgument());
+            const denominator = convertTokens(readArgument());
+            return { base: [new MathRoundBrackets({ children: [new MathFraction({ numerator, denominator, type: 'noBar' })] })] };
+        } else if (name === 'sqrt') {
+            const degree = readOptionalArgument();
+            const children = convertTokens(readArgument());
+            return { base: [new MathRadical({ children, degree: degree && convertTokens(degree) })] };
+        } else if (name === 'left') {
+            const opening = readDelimiter();
+            const children = convertUntil('\\right');
+            next();
+            const closing = readDelimiter();
+
+            const brackets = BRACKETS[opening + closing];
+            return {
+                base: brackets
+                    ? [brackets(children)]
+                    : [new MathRun(opening), ...children, new MathRun(closing)],
+            };
+        } else if (name === 'right' || name === 'middle') {
+            return { base: [new MathRun(readDelimiter())] };
+        } else if (TEXT_COMMANDS.has(name)) {
+            return { base: [new MathRun({ text: getText(readArgument()), normalText: true })] };
+        } else if (name === 'operatorname') {
+            return { base: [new MathRun({ text: getText(readArgument()), style: 'plain' })] };
+        } else if (name in ALPHABETS) {
+            // Letters are drawn in the alphabet, the rest of the argument is converted as it is
+            return {
+                base: readArgument().map(token => /^[a-zA-Z0-9]$/.test(token)
+                    ? new MathRun({ text: token, ...ALPHABETS[name] })
+                    : convertTokens([token])).flat(),
+            };
+        } else if (name in ACCENTS) {
+            const text = convertTokensToText(readArgument());
+            return { base: [new MathRun(text + ACCENTS[name])] };
+        } else if (name === 'overset' || name === 'stackrel' || name === 'underset') {
+            const script = convertTokens(readArgument());
+            const children = convertTokens(readArgument());
+            return {
+                base: [name === 'underset'
+                    ? new MathSubScript({ children, subScript: script })
+                    : new MathSuperScript({ children, superScript: script })],
+            };
+        } else if (['overbrace', 'underbrace', 'boxed', 'smash', 'substack'].includes(name) || name.startsWith('math')) {
+            // \mathop, \mathrel and the like only change spacing
+            return { base: convertTokens(readArgument()) };
+        } else if (name === 'not') {
+            return { base: [new MathRun(convertTokensToText([next() ?? '']) + '\u0338')] };
+        } else if (name === 'begin') {
+            return { base: convertEnvironment(getText(readArgument())) };
+        } else if (name === 'end') {
+            readArgument();
+            return { base: [] };
+        } else if (name === 'hspace' || name === 'mspace') {
+            readArgument();
+            return { base: [new MathRun(' ')] };
+        } else if (IGNORED_WITH_ARGUMENT.has(name)) {
+            readArgument();
+            return { base: [] };
+        } else if (IGNORED_COMMANDS.has(name)) {
+            return { base: [] };
+        } else if (name in LARGE_OPERATORS) {
+            return { base: [new MathRun(LARGE_OPERATORS[name])] };
+        } else if (FUNCTIONS.has(name)) {
+            return { base: [new MathRun({ text: name, style: 'plain' })] };
+        } else if (name in SYMBOLS) {
+            return { base: SYMBOLS[name] ? [new MathRun(SYMBOLS[name])] : [] };
+        }
+
+        return { base: [new MathRun(name)] };
+    };
+
+    // Matrices, cases and alignments are written on one line: cells apart, rows separated by semicolons
+    const convertEnvironment = (environment: string): MathComponent[] => {
+        if (environment === 'array' || environment === 'subarray' || environment === 'alignedat') {
+            readArgument(); // The columns
+        }
+        const children = convertUntil('\\end');
+        next();
+        readArgument();
+
+        switch (environment) {
+            case 'pmatrix':
+                return [new MathRoundBrackets({ children })];
+            case 'bmatrix':
+                return [new MathSquareBrackets({ children })];
+            case 'Bmatrix':
+                return [new MathCurlyBrackets({ children })];
+            case 'cases':
+                return [new MathRun('{'), ...children];
+            case 'vmatrix':
+                return [new MathRun('|'), ...children, new MathRun('|')];
+            case 'Vmatrix':
+                return [new MathRun('‖'), ...children, new MathRun('‖')];
+            default:
+                return children;
+        }
+    };
+
+    return convertUntil();
+}
+
+// The characters of an accent's argument, with the commands for symbols replaced by the symbols
+function convertTokensToText(tokens: string[]): string {
+    return tokens
+        .filter(token => token !== '{' && token !== '}' && !/^\s$/.test(token))
+        .map(token => token.startsWith('\\') ? SYMBOLS[token.slice(1)] ?? token.slice(1) : token)
+        .join('');
+}
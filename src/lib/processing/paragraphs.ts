@@ -0,0 +1,290 @@
+import { setTimeout as sleep } from 'timers/promises';
+import logger from '@/utils/logger';
+import { mapWithConcurrency } from '@/lib/server-utils';
+import {
+    classifyLlmError,
+    estimateTokens,
+    getCircuitBreaker,
+    getLlmProvider,
+    getRateLimiter,
+    getRetryDelay,
+    getRetryPolicy,
+    LlmRequestError,
+    shouldRetry,
+    getParagraphResponseSchema,
+    getMathRepairInstruction,
+    LlmConfigError,
+    LlmErrorKind,
+    LlmProvider,
+    ParagraphCleanup,
+    PARAGRAPH_CLEANUP_INSTRUCTION,
+} from '@/lib/llm';
+import type { ParagraphCheckpoint } from './checkpoint';
+import { createResponseCache, getCacheKey, CacheMode } from './cache';
+import { findInvalidMath, replaceInvalidMath } from './math';
+
+export interface ParagraphProcessingOptions {
+    signal?: AbortSignal;
+    checkpoint?: ParagraphCheckpoint; // Paragraphs processed by a previous run are taken from here
+    cacheMode?: CacheMode;
+    provider?: LlmProvider | string; // A provider or its id, the LLM_PROVIDER one when not set
+}
+
+// A paragraph left as transcribed because the provider couldn't process it
+export interface ParagraphFailure {
+    paragraph: number; // Index in the paragraphs of the transcription
+    kind: LlmErrorKind;
+    reason: string;
+}
+
+export interface ProcessedParagraphs {
+    texts: string[]; // The processed text of each paragraph, in the same order
+    footnotes: Map<number, string[]>;
+    failures: ParagraphFailure[];
+}
+
+// How many paragraphs of a job are sent to the provider at once
+function getParagraphConcurrency(): number {
+    return Number(process.env.LLM_CONCURRENCY) || 4;
+}
+
+// Leave every paragraph as transcribed, each with the reason it couldn't be processed
+function failAllParagraphs(paragraphs: string[], kind: LlmErrorKind, reason: string): ProcessedParagraphs {
+    return {
+        texts: [...paragraphs],
+        footnotes: new Map(paragraphs.map((_, index) => [index, ["Failed to process paragraph."]])),
+        failures: paragraphs.map((_, index) => ({ paragraph: index, kind, reason })),
+    };
+}
+
+// Clean up paragraphs with an LLM provider, one request per paragraph
+export async function processParagraphs(
+    paragraphs: string[],
+    setProgress: (progress: number) => void,
+    language: string,
+    { signal, checkpoint, cacheMode = 'use', provider: requestedProvider }: ParagraphProcessingOptions = {}
+): Promise<ProcessedParagraphs> {
+    let provider: LlmProvider;
+    try {
+        provider = typeof requestedProvider === 'object' ? requestedProvider : getLlmProvider(requestedProvider);
+    } catch (error) {
+        if (!(error instanceof LlmConfigError)) {
+            throw error;
+        }
+        logger.error(`LLM provider is not configured: ${error.message}`);
+        // Return original paragraphs if the provider can't be used, saying why in the job's result
+        return failAllParagraphs(paragraphs, 'config', error.message);
+    }
+
+    const systemInstruction = PARAGRAPH_CLEANUP_INSTRUCTION;
+    const responseSchema = getParagraphResponseSchema(language);
+
+    // Every job sending requests to this provider takes them from the same budgets and circuit
+    const rateLimiter = getRateLimiter(provider);
+    const circuitBreaker = getCircuitBreaker(provider);
+    const retryPolicy = getRetryPolicy();
+    const estimatedTokens = (paragraph: string) =>
+        // The response is about as long as the paragraph
+        estimateTokens(systemInstruction) + 2 * estimateTokens(paragraph);
+
+    // Helper function to wait for a specified time, unless the processing is cancelled
+    const wait = (ms: number) => sleep(ms, undefined, { signal });
+
+    // Helper function to process a single paragraph with retry logic
+    const processParagraphWithRetry = async (
+        paragraph: string,
+        paragraphNumber: number,
+        instruction: string = systemInstruction
+    ): Promise<{ success: true, data: ParagraphCleanup } | { success: false, error: LlmRequestError }> => {
+        for (let retries = 0; ; retries++) {
+            try {
+                // Fail fast while the provider is down
+                circuitBreaker.check();
+
+                // Apply rate limiting before making the API request
+                await rateLimiter.acquire(estimatedTokens(paragraph), signal);
+
+                const data = await provider.cleanupParagraph({ paragraph, systemInstruction: instruction, responseSchema, signal });
+                circuitBreaker.recordSuccess();
+                return {
+                    success: true,
+                    data
+                };
+            } catch (caught) {
+                // Don't retry a cancelled request
+                if (signal?.aborted) {
+                    throw caught;
+                }
+
+                const error = classifyLlmError(caught);
+                circuitBreaker.recordFailure(error);
+
+                if (!shouldRetry(retryPolicy, retries, error)) {
+                    logger.error(`Failed to process paragraph ${paragraphNumber} after ${retries} retries (${error.kind}): ${error.message}`);
+                    return {
+                        success: false,
+                        error
+                    };
+                }
+
+                // Hold back every request to the provider when the server tells us to wait
+                const retryDelay = getRetryDelay(retryPolicy, retries, error);
+                if (error.kind === 'rate_limit' && error.retryAfterMs !== undefined) {
+                    rateLimiter.pause(error.retryAfterMs);
+                }
+
+                logger.error(`Error processing paragraph ${paragraphNumber} (${error.kind}), retrying (${retries + 1}/${retryPolicy.maxRetries}) after ${retryDelay / 1000} seconds: ${error.message}`);
+                await wait(retryDelay);
+            }
+        }
+    };
+
+    try {
+        const paragraphFootnotes = new Map<number, string[]>();
+        const failures: ParagraphFailure[] = [];
+
+        // Responses already cached for the same paragraph, prompt, config and model are reused
+        const responseCache = createResponseCache();
+        const cacheModel = `${provider.id}/${provider.model}`;
+        const cacheConfig = { ...provider.generation, responseSchema };
+
+        let processedCount = 0;
+        const totalParagraphs = paragraphs.length;
+
+        // Clean up a paragraph with the given instruction, reusing the cached response if there is one
+        const requestCleanup = async (paragraph: string, index: number, instruction: string) => {
+            const cacheKey = getCacheKey({ model: cacheModel, systemInstruction: instruction, generationConfig: cacheConfig, paragraph });
+            if (cacheMode === 'clear') {
+                await responseCache.delete(cacheKey);
+            }
+
+            const cachedResponse = cacheMode === 'use' ? await responseCache.get(cacheKey) : null;
+            if (cachedResponse) {
+                logger.info(`Using the cached response for paragraph ${index + 1}`);
+                return { success: true as const, data: cachedResponse as ParagraphCleanup };
+            }
+
+            // Process paragraph with retry logic
+            const result = await processParagraphWithRetry(paragraph, index + 1, instruction);
+            if (result.success && cacheMode !== 'bypass') {
+                await responseCache.set(cacheKey, result.data);
+            }
+            return result;
+        };
+
+        // Check the formulas of a cleaned up paragraph. When some can't be compiled, ask the model once more
+        // with the problems it has to fix, and fall back to plain text for the formulas that are still invalid.
+        // What was done is returned as a caveat.
+        const repairMath = async (paragraph: string, index: number, cleanup: ParagraphCleanup) => {
+            const problems = findInvalidMath(cleanup.processed_text);
+            if (problems.length === 0) {
+                return { cleanup, repair: '' };
+            }
+
+            const formulas = problems.map(({ span, problem }) => `${span} (${problem})`).join(', ');
+            logger.warn(`The paragraph ${index + 1} has invalid formulas: ${formulas}`);
+
+            const retry = await requestCleanup(paragraph, index, systemInstruction + getMathRepairInstruction(problems));
+            if (retry.success && retry.data.processed_text && findInvalidMath(retry.data.processed_text).length === 0) {
+                return {
+                    cleanup: retry.data,
+                    repair: `The model wrote invalid formulas for this paragraph, which it was asked to fix: ${formulas}.`,
+                };
+            }
+
+            logger.warn(`The formulas of paragraph ${index + 1} couldn't be fixed. Using plain text instead.`);
+            return {
+                cleanup: { ...cleanup, processed_text: replaceInvalidMath(cleanup.processed_text) },
+                repair: `Some formulas of this paragraph were not valid LaTeX and are shown as plain text: ${formulas}.`,
+            };
+        };
+
+        // Process one paragraph, returning its processed text
+        const processParagraph = async (paragraph: string, index: number): Promise<string> => {
+            // Stop here if the processing was cancelled
+            signal?.throwIfAborted();
+
+            // Reuse the paragraph if a previous run of the job already processed it
+            const checkpointed = await checkpoint?.get(index, paragraph);
+            if (checkpointed?.status === 'done') {
+                const checkpointedFootnotes = [checkpointed.caveats, ...(checkpointed.repairs || [])].filter(Boolean);
+                if (checkpointedFootnotes.length > 0) {
+                    paragraphFootnotes.set(index, checkpointedFootnotes);
+                }
+                return checkpointed.processed_text;
+            }
+
+            const result = await requestCleanup(paragraph, index, systemInstruction);
+
+            if (result.success) {
+                const { cleanup: parsedResponse, repair } = await repairMath(paragraph, index, result.data);
+                const processedText = parsedResponse.processed_text || paragraph;
+                const caveats = parsedResponse.caveats === 'None' ? '' : parsedResponse.caveats || '';
+                const repairs = repair ? [repair] : [];
+
+                // Always use the processed text, even if there are caveats
+                if (caveats.length > 0) {
+                    logger.warn(`The paragraph ${index + 1} has caveats: \"${caveats}\"`);
+                }
+                if (caveats.length > 0 || repairs.length > 0) {
+                    paragraphFootnotes.set(index, [caveats, ...repairs].filter(Boolean));
+                }
+
+                await checkpoint?.save(index, {
+                    paragraph,
+                    status: 'done',
+                    processed_text: processedText,
+                    caveats,
+                    repairs,
+                });
+                return processedText;
+            }
+
+            // If all retries failed, or the error can't be retried, use the original paragraph
+            logger.error(`Failed to process paragraph ${index + 1}. Using original text.`);
+            failures.push({ paragraph: index, kind: result.error.kind, reason: result.error.message });
+            paragraphFootnotes.set(index, [
+                result.error.retryable
+                    ? "Failed to process paragraph after multiple retries."
+                    : "Failed to process paragraph."
+            ]);
+
+            // Saved as failed, so that resuming the job tries it again
+            await checkpoint?.save(index, {
+                paragraph,
+                status: 'failed',
+                processed_text: paragraph,
+                caveats: '',
+                error: result.error.message,
+            });
+            return paragraph;
+        };
+
+        // Process several paragraphs at once, keeping the results in order
+        const processedParagraphs = await mapWithConcurrency(paragraphs, getParagraphConcurrency(), async (paragraph, index) => {
+            const processedText = await processParagraph(paragraph, index);
+
+            // Update progress
+            processedCount++;
+            setProgress(Math.round((processedCount / totalParagraphs) * 100));
+
+            return processedText;
+        });
+
+        return {
+            texts: processedParagraphs,
+            footnotes: paragraphFootnotes,
+            failures: failures.sort((a, b) => a.paragraph - b.paragraph)
+        };
+    } catch (error) {
+        // A cancellation must reach the job, not fall back to the original text
+        if (signal?.aborted) {
+            throw error;
+        }
+
+        logger.error("Error in processParagraphs:", error);
+        // Return original paragraphs on error, saying why in the job's result
+        const { kind, message } = classifyLlmError(error);
+        return failAllParagraphs(paragraphs, kind, message);
+    }
+}
@@ -0,0 +1,176 @@
+import { estimateTokens } from '@/lib/llm';
+import type { TranscriptionResult, TranscriptionWord } from '@/lib/transcription/types';
+import { splitIntoSentences } from './sentences';
+
+// A paragraph of the transcription, spoken by a single speaker
+export interface TranscriptParagraph {
+    speakerId: string | null; // Null when the transcription doesn't tell speakers apart
+    start?: number; // Seconds from the start of the recording
+    end?: number;
+    text: string;
+}
+
+export interface SegmentationOptions {
+    maxParagraphTokens: number; // Largest paragraph sent to the LLM in a single request
+    minParagraphTokens: number; // Shorter paragraphs don't end at a pause, only at a change of speaker
+    pauseSeconds: number; // Shortest silence between two sentences considered as a natural break
+}
+
+// A speaker's uninterrupted stretch of speech
+interface SpeakerTurn {
+    speakerId: string | null;
+    words: TranscriptionWord[];
+}
+
+export function getSegmentationOptions(): SegmentationOptions {
+    return {
+        maxParagraphTokens: Number(process.env.PARAGRAPH_MAX_TOKENS) || 500,
+        minParagraphTokens: Number(process.env.PARAGRAPH_MIN_TOKENS) || 120,
+        pauseSeconds: Number(process.env.PARAGRAPH_PAUSE_SECONDS) || 2,
+    };
+}
+
+// Split the words into speaker turns, in the order they were spoken
+function splitIntoTurns(words: TranscriptionWord[]): SpeakerTurn[] {
+    const turns: SpeakerTurn[] = [];
+
+    words.forEach(word => {
+        if (word.type === 'audio_event') return;
+
+        const speakerId = word.speaker_id || null;
+        const currentTurn = turns[turns.length - 1];
+
+        // Spacing between two turns belongs to the previous one, so that a turn starts with a word
+        if (currentTurn && (currentTurn.speakerId === speakerId || word.type === 'spacing')) {
+            currentTurn.words.push(word);
+        } else if (word.type !== 'spacing') {
+            turns.push({ speakerId, words: [word] });
+        }
+    });
+
+    return turns;
+}
+
+const spokenWords = (words: TranscriptionWord[]) => words.filter(word => word.type !== 'spacing');
+
+const countTokens = (words: TranscriptionWord[]) => estimateTokens(words.map(word => word.text).join(''));
+
+// Silence between the end of a sentence and the start of the next one, zero when the timings are unknown
+function pauseBetween(previous: TranscriptionWord[], next: TranscriptionWord[]): number {
+    const lastWord = spokenWords(previous).pop();
+    const firstWord = spokenWords(next)[0];
+    if (lastWord?.end === undefined || firstWord?.start === undefined) {
+        return 0;
+    }
+    return Math.max(0, firstWord.start - lastWord.end);
+}
+
+// Cut a sentence that doesn't fit in a paragraph on its own, e.g. a transcription without punctuation,
+// at the longest pauses between its words
+function splitLongSentence(sentence: TranscriptionWord[], maxTokens: number): TranscriptionWord[][] {
+    if (countTokens(sentence) <= maxTokens) {
+        return [sentence];
+    }
+
+    // Keep each word with the spacing that follows it
+    const pieces: TranscriptionWord[][] = [];
+    sentence.forEach(word => {
+        if (word.type === 'spacing' && pieces.length > 0) {
+            pieces[pieces.length - 1].push(word);
+        } else {
+            pieces.push([word]);
+        }
+    });
+
+    return packIntoParagraphs(pieces, { maxParagraphTokens: maxTokens, minParagraphTokens: maxTokens / 2, pauseSeconds: Infinity });
+}
+
+// Group consecutive sentences into paragraphs that stay within the token budget.
+// When the budget is reached, the paragraph ends at the longest pause of its second half rather than
+// at the last sentence that fits, and a long enough pause ends it early.
+function packIntoParagraphs(sentences: TranscriptionWord[][], options: SegmentationOptions): TranscriptionWord[][] {
+    const paragraphs: TranscriptionWord[][] = [];
+    let pending: TranscriptionWord[][] = [];
+
+    // End a paragraph after the first `count` pending sentences
+    const flush = (count: number) => {
+        paragraphs.push(pending.slice(0, count).flat());
+        pending = pending.slice(count);
+    };
+
+    // Pick where to end the pending sentences: the longest pause once at least half the budget is used,
+    // the latest one on ties so that paragraphs stay as full as possible
+    const pickBoundary = () => {
+        let boundary = pending.length;
+        let longestPause = -1;
+        let tokens = 0;
+
+        for (let i = 1; i < pending.length; i++) {
+            tokens += countTokens(pending[i - 1]);
+            const pause = pauseBetween(pending[i - 1], pending[i]);
+            if (tokens >= options.maxParagraphTokens / 2 && pause >= longestPause) {
+                boundary = i;
+                longestPause = pause;
+            }
+        }
+
+        return boundary;
+    };
+
+    sentences.forEach(sentence => {
+        const previous = pending[pending.length - 1];
+        const pendingTokens = countTokens(pending.flat());
+
+        if (previous && pendingTokens >= options.minParagraphTokens && pauseBetween(previous, sentence) >= options.pauseSeconds) {
+            flush(pending.length);
+        }
+
+        pending.push(sentence);
+
+        while (pending.length > 1 && countTokens(pending.flat()) > options.maxParagraphTokens) {
+            flush(Math.min(pickBoundary(), pending.length - 1));
+        }
+    });
+
+    if (pending.length > 0) {
+        flush(pending.length);
+    }
+
+    return paragraphs;
+}
+
+// Build a paragraph from its words, timed from its first word to its last one
+function toParagraph(speakerId: string | null, words: TranscriptionWord[]): TranscriptParagraph {
+    const spoken = spokenWords(words);
+
+    return {
+        speakerId,
+        start: spoken[0]?.start,
+        end: spoken[spoken.length - 1]?.end,
+        text: words.map(word => word.text).join('').trim(),
+    };
+}
+
+// Segment the transcription into paragraphs, following the order of the conversation.
+// A new paragraph starts at every change of speaker, at long pauses, and before the token budget is exceeded.
+// Sentences are told apart with the rules of the transcription's language.
+export function segmentTranscription(
+    transcriptionData: TranscriptionResult,
+    options: SegmentationOptions = getSegmentationOptions()
+): TranscriptParagraph[] {
+    const paragraphs: TranscriptParagraph[] = [];
+
+    splitIntoTurns(transcriptionData.words || []).forEach(turn => {
+        const sentences = splitIntoSentences(turn.words, transcriptionData.language_code)
+            .flatMap(sentence => splitLongSentence(sentence, options.maxParagraphTokens));
+
+        packIntoParagraphs(sentences, options).forEach(words => {
+            const paragraph = toParagraph(turn.speakerId, words);
+            if (paragraph.text.length > 0) {
+                paragraphs.push(paragraph);
+            }
+        });
+    });
+
+    return paragraphs;
+}
@@ -0,0 +1,122 @@
+import type { TranscriptionWord } from '@/lib/transcription/types';
+
+// How sentences end in a language
+interface SentenceRules {
+    abbreviations: string[]; // Lowercase, without the final period
+    ordinals: boolean; // A short number followed by a period is an ordinal ("am 3. Oktober"), not the end of a sentence
+}
+
+// Abbreviations shared by most languages written in the Latin script
+const COMMON_ABBREVIATIONS = ['etc', 'cf', 'vs', 'ca', 'fig', 'eq', 'vol', 'nr', 'p', 'pp', 'dr', 'prof'];
+
+// Abbreviations that often close a sentence, which they do when the next word is capitalized
+const FINAL_ABBREVIATIONS = ['etc', 'ecc', 'usw'];
+
+const SENTENCE_RULES: Record<string, SentenceRules> = {
+    'eng': {
+        abbreviations: ['mr', 'mrs', 'ms', 'st', 'inc', 'ltd', 'co', 'ave', 'blvd', 'rd', 'hwy', 'e.g', 'i.e', 'approx', 'dept', 'ch'],
+        ordinals: false,
+    },
+    'ita': {
+        abbreviations: [
+            'ecc', 'pag', 'pagg', 'cfr', 'sig', 'sigg', 'sig.ra', 'sig.na', 'dott', 'dott.ssa', 'prof.ssa', 'ing', 'avv', 'arch',
+            'geom', 'rag', 'egr', 'gent', 'spett', 'n', 'nn', 'cap', 'capp', 'par', 'art', 'artt', 'tab', 'ss', 'sgg',
+            'seg', 'segg', 'v', 'vd', 'ved', 'p.es', 'a.c', 'd.c', 'tel', 'c.a', 'cit',
+        ],
+        ordinals: false,
+    },
+    'fra': {
+        abbreviations: ['m', 'mm', 'mme', 'mmes', 'mlle', 'pr', 'ex', 'env', 'chap', 'st', 'ste', 'av', 'apr', 'j.-c', 'c.-à-d', 'p.ex'],
+        ordinals: false,
+    },
+    'deu': {
+        abbreviations: [
+            'z.b', 'd.h', 'u.a', 'usw', 'bzw', 'vgl', 'hr', 'fr', 's', 'abb', 'kap', 'bd', 'evtl', 'ggf', 'inkl', 'sog', 'u.ä',
+            'z.t', 'jh', 'str', 'tel', 'u.u', 'o.ä', 'd.i', 'v.a', 'bspw', 'zzgl', 'gem', 'allg', 'geb', 'gest', 'chr', 'dipl', 'mio', 'mrd',
+        ],
+        ordinals: true,
+    },
+    'spa': {
+        abbreviations: ['sr', 'sra', 'srta', 'dra', 'ud', 'uds', 'p.ej', 'pág', 'págs', 'cap', 'núm', 'aprox', 'ej', 'a.c', 'd.c'],
+        ordinals: false,
+    },
+    'por': {
+        abbreviations: ['sr', 'sra', 'dra', 'profa', 'p.ex', 'pág', 'págs', 'cap', 'núm', 'aprox', 'ex', 'a.c', 'd.c'],
+        ordinals: false,
+    },
+};
+
+// Languages that write ordinal numbers with a period
+const ORDINAL_LANGUAGES = ['dan', 'nor', 'fin', 'ces', 'slk', 'slv', 'hrv', 'srp', 'bos', 'hun', 'pol', 'tur', 'est', 'lav', 'isl'];
+
+// Get the sentence rules of a language, from its ISO 639-3 code
+function getSentenceRules(languageCode?: string): SentenceRules {
+    const rules = (languageCode && SENTENCE_RULES[languageCode]) || {
+        abbreviations: [],
+        ordinals: !!languageCode && ORDINAL_LANGUAGES.includes(languageCode),
+    };
+
+    return { ...rules, abbreviations: [...COMMON_ABBREVIATIONS, ...rules.abbreviations] };
+}
+
+// Whether a sentence ends with this word, according to the rules of the language:
+// it ends with a period, question mark or exclamation mark (in any script), possibly followed by
+// closing quotes or brackets, that isn't part of an ellipsis, an abbreviation, an initial or an ordinal.
+// The next word may start with a lowercase letter, as transcriptions often don't capitalize sentences,
+// except after abbreviations that can close a sentence ("ecc. Va bene?").
+function endsSentence(word: TranscriptionWord, nextWord: TranscriptionWord | undefined, rules: SentenceRules): boolean {
+    const text = word.text.trim().replace(/["'”’»)\]]+$/, '');
+    if (!/[.!?。！？।؟]$/.test(text) || /(\.{2,}|…)$/.test(text)) {
+        return false;
+    }
+
+    // Questions and exclamations always end their sentence
+    if (!text.endsWith('.') || !nextWord) {
+        return true;
+    }
+
+    const stem = text.slice(0, -1).toLowerCase();
+    if (FINAL_ABBREVIATIONS.includes(stem)) {
+        return /^["'“‘«(\[]*\p{Lu}/u.test(nextWord.text.trim());
+    }
+    if (rules.abbreviations.includes(stem)) {
+        return false;
+    }
+
+    // Initials of names, e.g. "J. R. R. Tolkien"
+    if (/^\p{Lu}$/u.test(text.slice(0, -1))) {
+        return false;
+    }
+
+    return !(rules.ordinals && /^\d{1,3}$/.test(stem));
+}
+
+// Group a turn's words into sentences, keeping each word with its timings
+export function splitIntoSentences(words: TranscriptionWord[], languageCode?: string): TranscriptionWord[][] {
+    const rules = getSentenceRules(languageCode);
+    const sentences: TranscriptionWord[][] = [];
+    let currentSentence: TranscriptionWord[] = [];
+
+    // Index of the next word that isn't spacing, only ever moved forward so that long turns are split in linear time
+    let nextIndex = 0;
+
+    words.forEach((word, index) => {
+        currentSentence.push(word);
+        if (word.type === 'spacing') return;
+
+        nextIndex = Math.max(nextIndex, index + 1);
+        while (nextIndex < words.length && words[nextIndex].type === 'spacing') {
+            nextIndex++;
+        }
+        if (endsSentence(word, words[nextIndex], rules)) {
+            sentences.push(currentSentence);
+            currentSentence = [];
+        }
+    });
+
+    if (currentSentence.some(word => word.type !== 'spacing')) {
+        sentences.push(currentSentence);
+    }
+
+    return sentences;
+}
@@ -0,0 +1,157 @@
+import path from 'path';
+import { promises as fsPromises } from 'fs';
+import logger from '@/utils/logger';
+
+// A layout of the LaTeX document. Its source is a LaTeX document with placeholders:
+// {{preamble}} (math packages, fonts and language settings), {{content}} (the speaker turns and their paragraphs),
+// and the metadata {{title}}, {{course}}, {{lecturer}}, {{lesson}} and {{date}}.
+// {{#name}}…{{/name}} keeps its text only when the placeholder has a value.
+// Each turn starts with \speakerturn{speaker}{time span}, which templates can redefine with \renewcommand.
+export interface DocumentTemplate {
+    id: string;
+    name: string;
+    defaultTitle: string; // Used when no title is given
+    source: string;
+}
+
+export const DEFAULT_TEMPLATE_ID = 'lecture-notes';
+
+const BUILT_IN_TEMPLATES: DocumentTemplate[] = [
+    {
+        id: 'lecture-notes',
+        name: 'Lecture notes',
+        defaultTitle: 'Lecture Notes',
+        source: String.raw`\documentclass[11pt, a4paper]{article}
+{{preamble}}
+\usepackage{microtype}
+\usepackage[margin=0.75in]{geometry}
+\usepackage{parskip}
+\usepackage{setspace}
+\usepackage{xcolor}
+\setlength{\parindent}{1em}
+
+\title{{{title}}{{#course}}\\[0.3em]\large {{course}}{{/course}}{{#lesson}}\\[0.2em]\large Lesson {{lesson}}{{/lesson}}}
+\author{{{lecturer}}}
+\date{{{date}}}
+
+\begin{document}
+\maketitle
+\begin{spacing}{1.15}
+{{content}}
+\end{spacing}
+\end{document}`,
+    },
+    {
+        id: 'meeting-minutes',
+        name: 'Meeting minutes',
+        defaultTitle: 'Meeting Minutes',
+        source: String.raw`\documentclass[11pt, a4paper]{article}
+{{preamble}}
+\usepackage{microtype}
+\usepackage[margin=1in]{geometry}
+\usepackage{parskip}
+\usepackage{xcolor}
+
+% Each turn starts with the speaker in bold, and its time span on the right
+\renewcommand{\speakerturn}[2]{\par\medskip\noindent\textbf{#1}\hfill{\small\color{gray}#2}\par\nopagebreak}
+
+\begin{document}
+{\Large\bfseries {{title}}\par}
+\medskip
+\begin{tabular}{@{}ll@{}}
+\textbf{Date:} & {{date}}{{#course}} \\
+\textbf{Subject:} & {{course}}{{/course}}{{#lesson}} \\
+\textbf{Meeting:} & {{lesson}}{{/lesson}}{{#lecturer}} \\
+\textbf{Chair:} & {{lecturer}}{{/lecturer}}
+\end{tabular}
+\medskip
+\hrule
+\medskip
+
+{{content}}
+\end{document}`,
+    },
+    {
+        id: 'interview',
+        name: 'Interview transcript',
+        defaultTitle: 'Interview',
+        source: String.raw`\documentclass[11pt, a4paper]{article}
+{{preamble}}
+\usepackage{microtype}
+\usepackage[margin=1in]{geometry}
+\usepackage{parskip}
+\usepackage{setspace}
+\usepackage{xcolor}
+
+% The transcript reads as a dialogue: each turn is introduced by its speaker in capitals
+\renewcommand{\speakerturn}[2]{\par\bigskip\noindent\textbf{\MakeUppercase{#1}}\hfill{\footnotesize\color{gray}#2}\par\nopagebreak}
+
+\title{{{title}}{{#course}}\\[0.3em]\large {{course}}{{/course}}}
+\author{{{lecturer}}}
+\date{{{date}}}
+
+\begin{document}
+\maketitle
+\begin{spacing}{1.1}
+{{content}}
+\end{spacing}
+\end{document}`,
+    },
+];
+
+// Directory holding user-supplied templates, one .tex file per template, named after its ID
+export function getTemplatesDirectory(): string {
+    return process.env.TEMPLATES_DIR || path.join(process.cwd(), 'templates');
+}
+
+// Read the user-supplied templates, leaving out the ones without the content and preamble placeholders
+async function loadUserTemplates(): Promise<DocumentTemplate[]> {
+    let filenames: string[];
+    try {
+        filenames = await fsPromises.readdir(getTemplatesDirectory());
+    } catch {
+        return [];
+    }
+
+    const templates: DocumentTemplate[] = [];
+    for (const filename of filenames.filter(filename => /^[\w-]+\.tex$/.test(filename)).sort()) {
+        const source = await fsPromises.readFile(path.join(getTemplatesDirectory(), filename), 'utf-8');
+        if (!source.includes('{{content}}') || !source.includes('{{preamble}}')) {
+            logger.warn(`Template ${filename} has no {{content}} or {{preamble}} placeholder, skipping it`);
+            continue;
+        }
+
+        const id = filename.replace(/\.tex$/, '');
+        templates.push({ id, name: id, defaultTitle: 'Transcription', source });
+    }
+    return templates;
+}
+
+// Every template that can be picked, the built-in ones first. A user-supplied template replaces the built-in one of the same ID.
+export async function listTemplates(): Promise<DocumentTemplate[]> {
+    const userTemplates = await loadUserTemplates();
+    const userIds = new Set(userTemplates.map(template => template.id));
+
+    return [...BUILT_IN_TEMPLATES.filter(template => !userIds.has(template.id)), ...userTemplates];
+}
+
+// Get a template by its ID, or null if there's no such template
+export async function getTemplate(id: string): Promise<DocumentTemplate | null> {
+    return (await listTemplates()).find(template => template.id === id) ?? null;
+}
+
+export function getDefaultTemplate(): DocumentTemplate {
+    return BUILT_IN_TEMPLATES.find(template => template.id === DEFAULT_TEMPLATE_ID)!;
+}
+
+// Fill the placeholders of a template's source. Values are inserted as they are, so they must already be LaTeX.
+export function fillTemplate(source: string, values: Record<string, string | undefined>): string {
+    // Sections can be nested, so resolve them from the outermost until there's none left
+    let filled = source;
+    for (let previous = ''; previous !== filled;) {
+        previous = filled;
+        filled = filled.replace(/\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g, (_, name: string, text: string) => values[name] ? text : '');
+    }
+
+    return filled.replace(/\{\{(\w+)\}\}/g, (_, name: string) => values[name] ?? '');
+}
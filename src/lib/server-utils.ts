@@ -1,5 +1,50 @@
-import { exec } from 'child_process';
+import { exec, execFile } from 'child_process';
 import { promisify } from 'util';
+import { promises as fsPromises } from 'fs';
+import { v4 as uuidv4 } from 'uuid';
+import path from 'path';
+import os from 'os';
 
 // Promisify the exec function
-export const execPromise = promisify(exec); 
\ No newline at end of file
+export const execPromise = promisify(exec);
+
+// Promisify the execFile function, for commands whose arguments must not go through a shell
+export const execFilePromise = promisify(execFile);
+
+// Create a temporary directory for processing
+export async function createTempDirectory() {
+    const tempDir = path.join(os.tmpdir(), 'clear-notes-' + uuidv4());
+    await fsPromises.mkdir(tempDir, { recursive: true });
+    return tempDir;
+}
+
+// Write a file through a temporary one, so that readers never see it half written
+export async function writeFileAtomically(filePath: string, content: string | Buffer) {
+    const temporaryPath = `${filePath}.tmp`;
+    await fsPromises.writeFile(temporaryPath, content);
+    await fsPromises.rename(temporaryPath, filePath);
+}
+
+// Run a task for each item with at most `limit` of them at once, collecting the results in the order of the items.
+// Stops starting new tasks as soon as one fails, and rejects with that failure.
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T, index: number) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+    let failed = false;
+
+    const worker = async () => {
+        while (!failed && next < items.length) {
+            const index = next++;
+            try {
+                results[index] = await task(items[index], index);
+            } catch (error) {
+                failed = true;
+                throw error;
+            }
+        }
+    };
+
+    const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker);
+    await Promise.all(workers);
+    return results;
+}
@@ -0,0 +1,76 @@
+// Server-Sent Events helpers, shared by the streaming API routes and the components reading them
+
+// Create a streaming response and a function to send JSON messages on it
+export function createEventStream() {
+    const encoder = new TextEncoder();
+    const stream = new TransformStream();
+    const writer = stream.writable.getWriter();
+
+    // Format the SSE message according to the standard
+    const send = async (data: object) => {
+        await writer.write(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+    };
+
+    const close = async () => {
+        try {
+            await writer.close();
+        } catch {
+            // The client already went away
+        }
+    };
+
+    const response = new Response(stream.readable, {
+        headers: {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive',
+            'X-Accel-Buffering': 'no', // Disable buffering for Nginx
+            'Access-Control-Allow-Origin': '*', // Allow CORS
+        },
+    });
+
+    return { response, send, close };
+}
+
+// Read the JSON messages of a streaming response until the server closes it.
+// The messages are trusted to be of the type the caller expects from the route it called.
+export async function readEventStream<T>(response: Response, onMessage: (data: T) => void) {
+    // Set up a reader for the response body
+    const reader = response.body?.getReader();
+    if (!reader) {
+        throw new Error('Failed to get reader from response');
+    }
+
+    // Create a text decoder
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    // Read the stream
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+            break;
+        }
+
+        // Decode the chunk and add it to our buffer
+        buffer += decoder.decode(value, { stream: true });
+
+        // Process any complete messages in the buffer
+        const messages = buffer.split('\n\n');
+        buffer = messages.pop() || ''; // Keep the last incomplete message in the buffer
+
+        for (const message of messages) {
+            if (!message.trim()) continue;
+
+            // Extract the data part
+            const dataMatch = message.match(/^data: (.+)$/m);
+            if (!dataMatch) continue;
+
+            try {
+                onMessage(JSON.parse(dataMatch[1]));
+            } catch (error) {
+                console.error('Error parsing SSE message:', error);
+            }
+        }
+    }
+}
@@ -0,0 +1,327 @@
+import path from 'path';
+import { promises as fsPromises } from 'fs';
+import logger from '@/utils/logger';
+import { createTempDirectory, execFilePromise } from '@/lib/server-utils';
+import { TranscriptionOptions, TranscriptionProvider, TranscriptionResult, TranscriptionWord } from './types';
+
+export interface ChunkingOptions {
+    maxChunkSeconds: number; // Longest audio sent to the provider in a single call
+    overlapSeconds: number; // Audio repeated before each cut, used to match speakers across chunks
+    silenceNoiseDb: number; // Anything quieter than this counts as silence
+    minSilenceSeconds: number; // Shortest silence considered as a cut point
+}
+
+export interface AudioSpan {
+    start: number;
+    end: number;
+}
+
+// A transcribed chunk, with the span of the original audio it was cut from
+export interface ChunkTranscription {
+    cutStart: number; // Where this chunk's own part of the audio starts
+    cutEnd: number; // Where this chunk's own part of the audio ends
+    offset: number; // Where the extracted audio starts, including the overlap
+    result: TranscriptionResult;
+}
+
+export function getChunkingOptions(): ChunkingOptions {
+    return {
+        maxChunkSeconds: Number(process.env.TRANSCRIPTION_CHUNK_SECONDS) || 900,
+        overlapSeconds: Number(process.env.TRANSCRIPTION_CHUNK_OVERLAP_SECONDS) || 15,
+        silenceNoiseDb: Number(process.env.TRANSCRIPTION_SILENCE_DB) || -35,
+        minSilenceSeconds: Number(process.env.TRANSCRIPTION_MIN_SILENCE_SECONDS) || 0.5,
+    };
+}
+
+const ffmpeg = () => process.env.FFMPEG_PATH || 'ffmpeg';
+const ffprobe = () => process.env.FFPROBE_PATH || 'ffprobe';
+
+// Get the duration of an audio file in seconds
+export async function getAudioDuration(filePath: string, signal?: AbortSignal): Promise<number> {
+    const { stdout } = await execFilePromise(ffprobe(), [
+        '-v', 'error',
+        '-show_entries', 'format=duration',
+        '-of', 'default=noprint_wrappers=1:nokey=1',
+        filePath,
+    ], { signal });
+
+    const duration = parseFloat(stdout.trim());
+    if (isNaN(duration)) {
+        throw new Error(`Could not read the duration of ${filePath}`);
+    }
+    return duration;
+}
+
+// Find the silent spans of an audio file with ffmpeg's silencedetect filter
+export async function detectSilences(filePath: string, options: ChunkingOptions, signal?: AbortSignal): Promise<AudioSpan[]> {
+    const { stderr } = await execFilePromise(ffmpeg(), [
+        '-hide_banner', '-nostats',
+        '-i', filePath,
+        '-af', `silencedetect=noise=${options.silenceNoiseDb}dB:d=${options.minSilenceSeconds}`,
+        '-f', 'null', '-',
+    ], { maxBuffer: 64 * 1024 * 1024, signal });
+
+    const silences: AudioSpan[] = [];
+    let currentStart: number | null = null;
+
+    for (const line of stderr.split('\n')) {
+        const startMatch = line.match(/silence_start: (-?[\d.]+)/);
+        const endMatch = line.match(/silence_end: ([\d.]+)/);
+
+        if (startMatch) {
+            currentStart = Math.max(0, parseFloat(startMatch[1]));
+        } else if (endMatch && currentStart !== null) {
+            silences.push({ start: currentStart, end: parseFloat(endMatch[1]) });
+            currentStart = null;
+        }
+    }
+
+    return silences;
+}
+
+// Pick the cut points: in the second half of each window, cut in the middle of the longest silence,
+// or at the end of the window if there isn't one.
+// Every chunk but the first is extracted with the overlap before it, which counts towards the longest chunk.
+export function planChunks(duration: number, silences: AudioSpan[], options: ChunkingOptions): AudioSpan[] {
+    const chunks: AudioSpan[] = [];
+    let chunkStart = 0;
+
+    const getMaxLength = () => chunkStart === 0 ? options.maxChunkSeconds : options.maxChunkSeconds - options.overlapSeconds;
+    while (duration - chunkStart > getMaxLength()) {
+        const windowStart = chunkStart + getMaxLength() / 2;
+        const windowEnd = chunkStart + getMaxLength();
+
+        const candidates = silences.filter(silence => {
+            const middle = (silence.start + silence.end) / 2;
+            return middle >= windowStart && middle <= windowEnd;
+        });
+
+        let cut = windowEnd;
+        if (candidates.length > 0) {
+            const longest = candidates.reduce((best, silence) =>
+                silence.end - silence.start > best.end - best.start ? silence : best
+            );
+            cut = (longest.start + longest.end) / 2;
+        } else {
+            logger.warn(`No silence found between ${windowStart.toFixed(1)}s and ${windowEnd.toFixed(1)}s, cutting mid-speech`);
+        }
+
+        chunks.push({ start: chunkStart, end: cut });
+        chunkStart = cut;
+    }
+
+    chunks.push({ start: chunkStart, end: duration });
+    return chunks;
+}
+
+// Map each of a chunk's speakers to the speaker of the previous chunks who said the same words in the overlap
+function matchSpeakers(
+    merged: TranscriptionWord[],
+    overlapWords: TranscriptionWord[],
+    chunkWords: TranscriptionWord[],
+    unmatchedSpeaker: (matched: Set<string>) => string
+): Map<string, string> {
+    const votes = new Map<string, Map<string, number>>();
+
+    for (const word of overlapWords) {
+        if (word.type !== 'word' || !word.speaker_id || word.start === undefined || word.end === undefined) continue;
+
+        for (const previous of merged) {
+            if (previous.type !== 'word' || !previous.speaker_id || previous.start === undefined || previous.end === undefined) continue;
+
+            const overlap = Math.min(word.end, previous.end) - Math.max(word.start, previous.start);
+            if (overlap <= 0) continue;
+
+            const speakerVotes = votes.get(word.speaker_id) || new Map<string, number>();
+            speakerVotes.set(previous.speaker_id, (speakerVotes.get(previous.speaker_id) || 0) + overlap);
+            votes.set(word.speaker_id, speakerVotes);
+        }
+    }
+
+    const mapping = new Map<string, string>();
+    for (const word of chunkWords) {
+        if (!word.speaker_id || mapping.has(word.speaker_id)) continue;
+
+        const speakerVotes = votes.get(word.speaker_id);
+        if (speakerVotes && speakerVotes.size > 0) {
+            const [bestSpeaker] = [...speakerVotes.entries()].reduce((best, entry) => entry[1] > best[1] ? entry : best);
+            mapping.set(word.speaker_id, bestSpeaker);
+        } else {
+            // Nobody we know said anything in the overlap
+            mapping.set(word.speaker_id, unmatchedSpeaker(new Set(mapping.values())));
+        }
+    }
+
+    return mapping;
+}
+
+// Stitch the chunks back into a single transcription, with timestamps relative to the original audio
+// and speaker IDs consistent across chunk boundaries
+export function mergeChunkTranscriptions(chunks: ChunkTranscription[], numSpeakers?: number): TranscriptionResult {
+    const merged: TranscriptionWord[] = [];
+    const knownSpeakers = new Set<string>();
+    const audioEvents: NonNullable<TranscriptionResult['audio_events']> = [];
+
+    // An unmatched speaker is someone new, unless we already know everybody who's expected to speak
+    const unmatchedSpeaker = (matched: Set<string>) => {
+        if (numSpeakers !== undefined && knownSpeakers.size >= numSpeakers) {
+            const unused = [...knownSpeakers].find(speaker => !matched.has(speaker));
+            if (unused) return unused;
+        }
+
+        let number = 0;
+        while (knownSpeakers.has(`speaker_${number}`)) number++;
+        knownSpeakers.add(`speaker_${number}`);
+        return `speaker_${number}`;
+    };
+
+    chunks.forEach((chunk, index) => {
+        // Move the words to the timeline of the original audio
+        const shifted = (chunk.result.words || []).map(word => ({
+            ...word,
+            start: word.start !== undefined ? word.start + chunk.offset : undefined,
+            end: word.end !== undefined ? word.end + chunk.offset : undefined,
+        }));
+
+        // The last chunk keeps everything up to the end, even past a slightly off probed duration
+        const cutEnd = index === chunks.length - 1 ? Infinity : chunk.cutEnd;
+        const middle = (word: TranscriptionWord) => ((word.start ?? 0) + (word.end ?? word.start ?? 0)) / 2;
+        const overlapWords = shifted.filter(word => middle(word) < chunk.cutStart);
+        const ownWords = shifted.filter(word => middle(word) >= chunk.cutStart && middle(word) < cutEnd);
+
+        // The first chunk defines the speaker IDs, the following ones are matched against it
+        let mapping: Map<string, string>;
+        if (index === 0) {
+            mapping = new Map();
+            ownWords.forEach(word => {
+                if (word.speaker_id) {
+                    mapping.set(word.speaker_id, word.speaker_id);
+                    knownSpeakers.add(word.speaker_id);
+                }
+            });
+        } else {
+            mapping = matchSpeakers(merged, overlapWords, ownWords, unmatchedSpeaker);
+        }
+
+        // Don't start a chunk with a spacing, and don't glue its first word to the previous chunk's last one
+        while (ownWords.length > 0 && ownWords[0].type === 'spacing') {
+            ownWords.shift();
+        }
+        const last = merged[merged.length - 1];
+        if (last && last.type !== 'spacing' && ownWords.length > 0) {
+            merged.push({ text: ' ', start: last.end, end: ownWords[0].start, type: 'spacing', speaker_id: last.speaker_id });
+        }
+
+        ownWords.forEach(word => {
+            merged.push({
+                ...word,
+                speaker_id: word.speaker_id ? mapping.get(word.speaker_id) : undefined,
+            });
+        });
+
+        chunk.result.audio_events?.forEach(event => {
+            const start = event.start_time + chunk.offset;
+            if (start >= chunk.cutStart && start < cutEnd) {
+                audioEvents.push({ ...event, start_time: start, end_time: event.end_time + chunk.offset });
+            }
+        });
+    });
+
+    const probabilities = chunks
+        .map(chunk => chunk.result.language_probability)
+        .filter((probability): probability is number => probability !== undefined);
+
+    return {
+        language_code: chunks[0]?.result.language_code,
+        language_probability: probabilities.length > 0
+            ? probabilities.reduce((sum, probability) => sum + probability, 0) / probabilities.length
+            : undefined,
+        text: merged.map(word => word.text).join(''),
+        words: merged,
+        ...(audioEvents.length > 0 ? { audio_events: audioEvents } : {}),
+    };
+}
+
+// Transcribe an audio file of any length: short files (and providers that cope with long audio)
+// go through in a single call, longer ones are split at silences and stitched back together
+export async function transcribeLongAudio(
+    provider: TranscriptionProvider,
+    audio: Blob,
+    filename: string,
+    options: TranscriptionOptions,
+    onProgress: (progress: number) => void = () => { }
+): Promise<TranscriptionResult> {
+    if (provider.handlesLongAudio) {
+        const result = await provider.transcribe(audio, filename, options);
+        onProgress(100);
+        return result;
+    }
+
+    const chunkingOptions = getChunkingOptions();
+    if (provider.maxAudioSeconds) {
+        chunkingOptions.maxChunkSeconds = Math.min(chunkingOptions.maxChunkSeconds, provider.maxAudioSeconds);
+    }
+    // Leave room in each chunk for its own part of the audio
+    chunkingOptions.overlapSeconds = Math.min(chunkingOptions.overlapSeconds, chunkingOptions.maxChunkSeconds / 2);
+    const tempDir = await createTempDirectory();
+
+    try {
+        const inputPath = path.join(tempDir, 'input' + (path.extname(filename) || '.audio'));
+        await fsPromises.writeFile(inputPath, Buffer.from(await audio.arrayBuffer()));
+
+        let duration: number;
+        try {
+            duration = await getAudioDuration(inputPath, options.signal);
+        } catch (error) {
+            options.signal?.throwIfAborted();
+            logger.warn(`Could not probe ${filename}, sending it in a single call: ${error}`);
+            const result = await provider.transcribe(audio, filename, options);
+            onProgress(100);
+            return result;
+        }
+
+        if (duration <= chunkingOptions.maxChunkSeconds) {
+            const result = await provider.transcribe(audio, filename, options);
+            onProgress(100);
+            return result;
+        }
+
+        const silences = await detectSilences(inputPath, chunkingOptions, options.signal);
+        const spans = planChunks(duration, silences, chunkingOptions);
+        logger.info(`Splitting ${filename} (${Math.round(duration)}s) into ${spans.length} chunks`);
+
+        const chunks: ChunkTranscription[] = [];
+        for (let i = 0; i < spans.length; i++) {
+            options.signal?.throwIfAborted();
+
+            const span = spans[i];
+            const offset = Math.max(0, span.start - chunkingOptions.overlapSeconds);
+            const chunkPath = path.join(tempDir, `chunk_${i}.flac`);
+
+            await execFilePromise(ffmpeg(), [
+                '-y', '-hide_banner', '-nostats',
+                '-ss', offset.toFixed(3),
+                '-t', (span.end - offset).toFixed(3),
+                '-i', inputPath,
+                '-vn', '-ac', '1', '-ar', '16000', '-c:a', 'flac',
+                chunkPath,
+            ], { maxBuffer: 16 * 1024 * 1024, signal: options.signal });
+
+            const chunkAudio = new Blob([await fsPromises.readFile(chunkPath)], { type: 'audio/flac' });
+            const result = await provider.transcribe(chunkAudio, path.basename(chunkPath), options);
+            chunks.push({ cutStart: span.start, cutEnd: span.end, offset, result });
+
+            logger.info(`Transcribed chunk ${i + 1}/${spans.length} (${span.start.toFixed(1)}s - ${span.end.toFixed(1)}s)`);
+            onProgress(Math.round(((i + 1) / spans.length) * 100));
+        }
+
+        return mergeChunkTranscriptions(chunks, options.numSpeakers);
+    } finally {
+        // Clean up the temporary directory
+        try {
+            await fsPromises.rm(tempDir, { recursive: true, force: true });
+        } catch (error) {
+            logger.error('Error cleaning up temporary directory:', error);
+        }
+    }
+}
@@ -0,0 +1,28 @@
+import { TranscriptionConfigError, TranscriptionProvider } from './types';
+import { createElevenLabsProvider } from './providers/elevenlabs';
+import { createWhisperProvider } from './providers/whisper';
+import { createFixtureProvider } from './providers/fixture';
+
+export * from './types';
+export { transcribeLongAudio } from './chunking';
+
+// Available speech-to-text backends, by the id clients send along with the audio
+const providerFactories: Record<string, () => TranscriptionProvider> = {
+    elevenlabs: createElevenLabsProvider,
+    whisper: createWhisperProvider,
+    fixture: createFixtureProvider,
+};
+
+export const transcriptionProviderIds = Object.keys(providerFactories);
+
+// Get the requested provider, falling back to TRANSCRIPTION_PROVIDER and then to ElevenLabs
+export function getTranscriptionProvider(providerId?: string | null): TranscriptionProvider {
+    const id = providerId || process.env.TRANSCRIPTION_PROVIDER || 'elevenlabs';
+    const factory = providerFactories[id];
+
+    if (!factory) {
+        throw new TranscriptionConfigError(`Unknown transcription provider "${id}". Available providers: ${transcriptionProviderIds.join(', ')}.`);
+    }
+
+    return factory();
+}
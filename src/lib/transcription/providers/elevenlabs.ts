@@ -0,0 +1,37 @@
+import { ElevenLabsClient } from 'elevenlabs';
+import { TranscriptionConfigError, TranscriptionProvider } from '../types';
+
+// Cloud transcription through the ElevenLabs speech-to-text API
+export function createElevenLabsProvider(): TranscriptionProvider {
+    // Get the API key from environment variables
+    const apiKey = process.env.ELEVENLABS_API_KEY;
+
+    if (!apiKey) {
+        throw new TranscriptionConfigError('API key not found. Please set ELEVENLABS_API_KEY in your .env file.');
+    }
+
+    // Initialize the ElevenLabs client
+    const client = new ElevenLabsClient({
+        apiKey: apiKey,
+    });
+
+    return {
+        id: 'elevenlabs',
+        maxAudioSeconds: 8 * 60, // Diarization limits the input to 8 minutes
+        async transcribe(audio, filename, options) {
+            // Make the request to the 11Labs API using the client
+            const transcription = await client.speechToText.convert({
+                file: audio,
+                model_id: "scribe_v1", // Model to use
+                tag_audio_events: true, // Tag audio events like laughter, applause, etc.
+                language_code: options.languageCode, // Language of the audio file from the request
+                diarize: true, // Whether to annotate who is speaking
+                num_speakers: options.numSpeakers, // Let the model detect the speakers when not set
+            }, {
+                abortSignal: options.signal,
+            });
+
+            return transcription;
+        },
+    };
+}
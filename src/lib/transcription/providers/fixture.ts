@@ -0,0 +1,56 @@
+import { promises as fsPromises } from 'fs';
+import { TranscriptionProvider, TranscriptionResult, TranscriptionWord } from '../types';
+
+// A short lecture excerpt, with the kind of disfluencies the processing step is meant to clean up
+const FIXTURE_SENTENCES = [
+    'Allora, oggi parliamo del potenziale idrico, ok?',
+    'Il potenziale idrico è la somma del potenziale osmotico e del potenziale di pressione.',
+    'Ehm, quando aggiungiamo un soluto, il potenziale osmotico diminuisce, cioè diventa più negativo.',
+    'Quindi l\'acqua si sposta sempre verso il potenziale idrico più basso.',
+    'Per esempio, nella radice la concentrazione di ioni K più è maggiore rispetto al suolo.',
+    'Questo, ehm, è il motivo per cui la pianta riesce ad assorbire acqua anche da un terreno abbastanza secco.',
+];
+
+const WORD_DURATION = 0.35;
+const SPACING_DURATION = 0.1;
+
+// Build the fixture transcription with evenly spaced, deterministic timestamps
+function buildFixtureTranscription(languageCode: string): TranscriptionResult {
+    const words: TranscriptionWord[] = [];
+    let time = 0;
+
+    const tokens = FIXTURE_SENTENCES.join(' ').split(' ');
+    tokens.forEach((token, index) => {
+        if (index > 0) {
+            words.push({ text: ' ', start: time, end: time + SPACING_DURATION, type: 'spacing', speaker_id: 'speaker_0' });
+            time += SPACING_DURATION;
+        }
+        words.push({ text: token, start: time, end: time + WORD_DURATION, type: 'word', speaker_id: 'speaker_0' });
+        time += WORD_DURATION;
+    });
+
+    return {
+        language_code: languageCode,
+        language_probability: 1,
+        text: words.map(word => word.text).join(''),
+        words,
+    };
+}
+
+// Deterministic provider for testing the pipeline without network access or audio tooling.
+// Returns the JSON file at TRANSCRIPTION_FIXTURE_PATH if set, or a built-in lecture excerpt otherwise.
+export function createFixtureProvider(): TranscriptionProvider {
+    const fixturePath = process.env.TRANSCRIPTION_FIXTURE_PATH;
+
+    return {
+        id: 'fixture',
+        handlesLongAudio: true,
+        async transcribe(audio, filename, options) {
+            if (fixturePath) {
+                return JSON.parse(await fsPromises.readFile(fixturePath, 'utf-8')) as TranscriptionResult;
+            }
+
+            return buildFixtureTranscription(options.languageCode);
+        },
+    };
+}
@@ -0,0 +1,148 @@
+import path from 'path';
+import { promises as fsPromises } from 'fs';
+import logger from '@/utils/logger';
+import { createTempDirectory, execFilePromise } from '@/lib/server-utils';
+import { TranscriptionConfigError, TranscriptionProvider, TranscriptionResult, TranscriptionWord } from '../types';
+
+// whisper.cpp and faster-whisper expect ISO 639-1 codes, while the rest of the app uses ISO 639-3
+const whisperLanguageCodes: Record<string, string> = {
+    'ara': 'ar',
+    'cat': 'ca',
+    'ces': 'cs',
+    'cmn': 'zh',
+    'dan': 'da',
+    'deu': 'de',
+    'ell': 'el',
+    'eng': 'en',
+    'fin': 'fi',
+    'fra': 'fr',
+    'heb': 'he',
+    'hin': 'hi',
+    'hun': 'hu',
+    'ita': 'it',
+    'jpn': 'ja',
+    'kor': 'ko',
+    'nld': 'nl',
+    'nor': 'no',
+    'pol': 'pl',
+    'por': 'pt',
+    'ron': 'ro',
+    'rus': 'ru',
+    'spa': 'es',
+    'swe': 'sv',
+    'tur': 'tr',
+    'ukr': 'uk',
+    'vie': 'vi',
+};
+
+// Output of whisper.cpp with `--output-json`, one entry per segment
+interface WhisperCppOutput {
+    transcription: Array<{
+        offsets: { from: number; to: number };
+        text: string;
+    }>;
+}
+
+// Output of faster-whisper (whisper-ctranslate2) with `--output_format json --word_timestamps True`
+interface FasterWhisperOutput {
+    segments: Array<{
+        words?: Array<{ word: string; start: number; end: number }>;
+    }>;
+}
+
+// Join timed words into the ElevenLabs shape, with explicit spacing entries in between
+function toTranscriptionResult(timedWords: Array<{ text: string; start: number; end: number }>, languageCode: string): TranscriptionResult {
+    const words: TranscriptionWord[] = [];
+
+    timedWords.forEach((word, index) => {
+        if (index > 0) {
+            const previous = timedWords[index - 1];
+            words.push({ text: ' ', start: previous.end, end: word.start, type: 'spacing', speaker_id: 'speaker_0' });
+        }
+        words.push({ text: word.text, start: word.start, end: word.end, type: 'word', speaker_id: 'speaker_0' });
+    });
+
+    return {
+        language_code: languageCode,
+        text: words.map(word => word.text).join(''),
+        words,
+    };
+}
+
+// Offline transcription through a local whisper.cpp or faster-whisper binary.
+// Nothing leaves the machine, but there is no diarization: everything is attributed to a single speaker.
+export function createWhisperProvider(): TranscriptionProvider {
+    const flavor = process.env.WHISPER_FLAVOR || 'whisper.cpp';
+    const binary = process.env.WHISPER_BIN || (flavor === 'faster-whisper' ? 'whisper-ctranslate2' : 'whisper-cli');
+    const model = process.env.WHISPER_MODEL;
+    const ffmpeg = process.env.FFMPEG_PATH || 'ffmpeg';
+
+    if (flavor !== 'whisper.cpp' && flavor !== 'faster-whisper') {
+        throw new TranscriptionConfigError(`Unknown WHISPER_FLAVOR "${flavor}". Use "whisper.cpp" or "faster-whisper".`);
+    }
+
+    if (!model) {
+        throw new TranscriptionConfigError('Whisper model not found. Please set WHISPER_MODEL in your .env file.');
+    }
+
+    return {
+        id: 'whisper',
+        handlesLongAudio: true,
+        async transcribe(audio, filename, options) {
+            const tempDir = await createTempDirectory();
+            const language = whisperLanguageCodes[options.languageCode] || 'auto';
+
+            try {
+                // Both flavors are happiest with 16 kHz mono WAV, so normalize whatever was uploaded
+                const inputPath = path.join(tempDir, 'input' + (path.extname(filename) || '.audio'));
+                const wavPath = path.join(tempDir, 'audio.wav');
+                await fsPromises.writeFile(inputPath, Buffer.from(await audio.arrayBuffer()));
+                await execFilePromise(ffmpeg, ['-y', '-i', inputPath, '-ar', '16000', '-ac', '1', '-c:a', 'pcm_s16le', wavPath], { signal: options.signal });
+
+                logger.info(`Transcribing ${filename} with ${flavor} (${binary})`);
+
+                if (flavor === 'whisper.cpp') {
+                    // One segment per word, so that every word gets its own timestamps
+                    const outputBase = path.join(tempDir, 'output');
+                    await execFilePromise(
+                        binary,
+                        ['-m', model, '-f', wavPath, '-l', language, '-ml', '1', '-sow', '-oj', '-of', outputBase],
+                        { maxBuffer: 64 * 1024 * 1024, signal: options.signal }
+                    );
+
+                    const output: WhisperCppOutput = JSON.parse(await fsPromises.readFile(outputBase + '.json', 'utf-8'));
+                    const timedWords = output.transcription
+                        .map(segment => ({
+                            text: segment.text.trim(),
+                            start: segment.offsets.from / 1000,
+                            end: segment.offsets.to / 1000,
+                        }))
+                        .filter(word => word.text.length > 0);
+
+                    return toTranscriptionResult(timedWords, options.languageCode);
+                }
+
+                const args = [wavPath, '--model', model, '--word_timestamps', 'True', '--output_format', 'json', '--output_dir', tempDir];
+                if (language !== 'auto') {
+                    args.push('--language', language);
+                }
+                await execFilePromise(binary, args, { maxBuffer: 64 * 1024 * 1024, signal: options.signal });
+
+                const output: FasterWhisperOutput = JSON.parse(await fsPromises.readFile(path.join(tempDir, 'audio.json'), 'utf-8'));
+                const timedWords = output.segments
+                    .flatMap(segment => segment.words || [])
+                    .map(word => ({ text: word.word.trim(), start: word.start, end: word.end }))
+                    .filter(word => word.text.length > 0);
+
+                return toTranscriptionResult(timedWords, options.languageCode);
+            } finally {
+                // Clean up the temporary directory
+                try {
+                    await fsPromises.rm(tempDir, { recursive: true, force: true });
+                } catch (error) {
+                    logger.error('Error cleaning up temporary directory:', error);
+                }
+            }
+        },
+    };
+}
@@ -0,0 +1,63 @@
+import type { TranscriptionResult } from './types';
+
+export interface SpeakerSummary {
+    speakerId: string;
+    wordCount: number;
+    talkTime: number; // Seconds, summed over the speaker's turns
+}
+
+// Count the words and the talk time of each speaker, to check at a glance whether diarization worked.
+// A turn runs from a speaker's first word to their last one before somebody else speaks.
+export function summarizeSpeakers(transcription: TranscriptionResult): SpeakerSummary[] {
+    const summaries = new Map<string, SpeakerSummary>();
+    let turnSpeaker: string | null = null;
+    let turnStart = 0;
+    let turnEnd = 0;
+
+    const closeTurn = () => {
+        if (turnSpeaker !== null) {
+            summaries.get(turnSpeaker)!.talkTime += Math.max(0, turnEnd - turnStart);
+        }
+    };
+
+    transcription.words?.forEach(word => {
+        if (word.type !== 'word') return;
+
+        const speakerId = word.speaker_id || 'unknown_speaker';
+        if (!summaries.has(speakerId)) {
+            summaries.set(speakerId, { speakerId, wordCount: 0, talkTime: 0 });
+        }
+        summaries.get(speakerId)!.wordCount++;
+
+        if (speakerId !== turnSpeaker) {
+            closeTurn();
+            turnSpeaker = speakerId;
+            turnStart = word.start ?? turnEnd;
+        }
+        turnEnd = word.end ?? word.start ?? turnEnd;
+    });
+    closeTurn();
+
+    return [...summaries.values()].sort((a, b) => b.talkTime - a.talkTime);
+}
+
+// Length of the recording as far as the transcription goes, i.e. up to the end of its last word
+export function getTranscriptionDuration(transcription: TranscriptionResult): number | undefined {
+    const ends = (transcription.words || [])
+        .map(word => word.end ?? word.start)
+        .filter((time): time is number => time !== undefined);
+
+    return ends.length > 0 ? Math.max(...ends) : undefined;
+}
+
+// Format a duration in seconds as h:mm:ss or m:ss
+export function formatDuration(seconds: number): string {
+    const total = Math.round(seconds);
+    const hours = Math.floor(total / 3600);
+    const minutes = Math.floor((total % 3600) / 60);
+    const rest = String(total % 60).padStart(2, '0');
+
+    return hours > 0
+        ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}`
+        : `${minutes}:${rest}`;
+}
@@ -0,0 +1,53 @@
+// Shape of a transcription, as returned by the ElevenLabs speech-to-text API.
+// Every provider must produce this shape so the rest of the pipeline doesn't
+// need to know where the transcription came from.
+export interface TranscriptionWord {
+    text: string;
+    start?: number;
+    end?: number;
+    type?: 'word' | 'spacing' | 'audio_event';
+    speaker_id?: string;
+}
+
+export interface TranscriptionResult {
+    language_code?: string;
+    language_probability?: number;
+    text: string;
+    words?: TranscriptionWord[];
+    audio_events?: Array<{
+        type: string;
+        start_time: number;
+        end_time: number;
+    }>;
+    speakers?: Array<{
+        name: string;
+        segments: Array<{
+            start_time: number;
+            end_time: number;
+            text: string;
+        }>;
+    }>;
+}
+
+// Options shared by all the providers
+export interface TranscriptionOptions {
+    languageCode: string;
+    numSpeakers?: number; // Expected number of speakers, auto-detected when not set
+    signal?: AbortSignal; // Aborted when the transcription is cancelled
+}
+
+// A speech-to-text backend
+export interface TranscriptionProvider {
+    id: string;
+    handlesLongAudio?: boolean; // Whether long recordings can be sent as a whole instead of in chunks
+    maxAudioSeconds?: number; // Longest audio the provider accepts in a single call
+    transcribe(audio: Blob, filename: string, options: TranscriptionOptions): Promise<TranscriptionResult>;
+}
+
+// Raised when a provider can't be used, e.g. a missing API key or binary path
+export class TranscriptionConfigError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TranscriptionConfigError';
+    }
+}